@@ -1,21 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Music, 
   Play, 
   Pause, 
   SkipForward, 
+  SkipBack,
   Square, 
   Shuffle, 
+  Repeat,
+  Repeat1,
+  Radio,
   Volume2, 
   Users, 
   Clock,
   Trash2,
+  GripVertical,
+  ChevronsRight,
+  History,
+  ListMusic,
+  Search,
+  Plus,
+  Loader2,
   Server,
-  Activity
+  Activity,
+  LogIn,
+  LogOut,
+  FileText,
+  SlidersHorizontal,
+  X
 } from 'lucide-react';
 import { io, Socket } from 'socket.io-client';
-import { BotStats, ServerInfo, Queue, Track } from '../shared/types';
+import { BotStats, ServerInfo, Queue, Track, PlayerAction, DashboardUser, SearchResult } from '../shared/types';
+import { formatDuration } from '../shared/format';
+import { PlaylistsPanel } from './PlaylistsPanel';
+import { FiltersPanel } from './FiltersPanel';
+import { LyricsPanel } from './LyricsPanel';
 
 interface DashboardProps {}
 
@@ -26,9 +46,33 @@ export const Dashboard: React.FC<DashboardProps> = () => {
   const [servers, setServers] = useState<ServerInfo[]>([]);
   const [selectedServer, setSelectedServer] = useState<string | null>(null);
   const [currentQueue, setCurrentQueue] = useState<Queue | null>(null);
+  const [user, setUser] = useState<DashboardUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [seekPreview, setSeekPreview] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [activeTab, setActiveTab] = useState<'player' | 'lyrics' | 'filters' | 'playlists'>('player');
+  const latestSearchRef = useRef('');
+  // Socket listeners are registered once, so they read the selection through a ref
+  const selectedServerRef = useRef<string | null>(null);
 
   useEffect(() => {
-    const socketConnection = io();
+    fetchUser();
+  }, []);
+
+  useEffect(() => {
+    selectedServerRef.current = selectedServer;
+  }, [selectedServer]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const socketConnection = io({ withCredentials: true });
     setSocket(socketConnection);
 
     socketConnection.on('connect', () => {
@@ -45,17 +89,54 @@ export const Dashboard: React.FC<DashboardProps> = () => {
 
     socketConnection.on('servers-list', (serversList: ServerInfo[]) => {
       setServers(serversList);
-      if (!selectedServer && serversList.length > 0) {
+      if (!selectedServerRef.current && serversList.length > 0) {
         setSelectedServer(serversList[0].id);
       }
     });
 
     socketConnection.on('queue-update', (serverId: string, queue: Queue) => {
-      if (serverId === selectedServer) {
+      if (serverId === selectedServerRef.current) {
         setCurrentQueue(queue);
+        setPosition(queue.position);
+      }
+    });
+
+    socketConnection.on('track-start', (serverId: string) => {
+      if (serverId === selectedServerRef.current) {
+        setPosition(0);
+      }
+    });
+
+    socketConnection.on('position-update', (serverId: string, newPosition: number) => {
+      if (serverId === selectedServerRef.current) {
+        setPosition(newPosition);
+      }
+    });
+
+    socketConnection.on('search-results', (query: string, results: SearchResult[]) => {
+      // Ignore answers to searches that have since been replaced
+      if (query === latestSearchRef.current) {
+        setSearchResults(results);
+        setIsSearching(false);
+      }
+    });
+
+    socketConnection.on('track-added', () => {
+      setSearchResults([]);
+      setSearchQuery('');
+    });
+
+    socketConnection.on('player-error', (serverId: string, message: string) => {
+      if (serverId === selectedServerRef.current) {
+        setErrorMessage(message);
       }
     });
 
+    socketConnection.on('error', (message: string) => {
+      setErrorMessage(message);
+      setIsSearching(false);
+    });
+
     // Initial data fetch
     fetchStats();
     fetchServers();
@@ -63,7 +144,7 @@ export const Dashboard: React.FC<DashboardProps> = () => {
     return () => {
       socketConnection.disconnect();
     };
-  }, []);
+  }, [user]);
 
   useEffect(() => {
     if (selectedServer && socket) {
@@ -71,10 +152,42 @@ export const Dashboard: React.FC<DashboardProps> = () => {
       const server = servers.find(s => s.id === selectedServer);
       if (server) {
         setCurrentQueue(server.queue);
+        setPosition(server.queue.position);
       }
     }
   }, [selectedServer, socket, servers]);
 
+  // Advance the progress bar locally between position updates from the server
+  const isAdvancing = !!currentQueue?.currentTrack && currentQueue.isPlaying && !currentQueue.isPaused;
+  const trackDuration = currentQueue?.currentTrack?.duration ?? 0;
+  useEffect(() => {
+    if (!isAdvancing) return;
+
+    const interval = setInterval(() => {
+      setPosition(current => trackDuration > 0 ? Math.min(current + 1, trackDuration) : current + 1);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isAdvancing, trackDuration]);
+
+  const fetchUser = async () => {
+    try {
+      const response = await fetch('/api/me', { credentials: 'include' });
+      setUser(response.ok ? await response.json() : null);
+    } catch (error) {
+      console.error('Failed to fetch user:', error);
+    } finally {
+      setAuthChecked(true);
+    }
+  };
+
+  const logout = async () => {
+    await fetch('/auth/logout', { method: 'POST', credentials: 'include' });
+    setUser(null);
+    setServers([]);
+    setSelectedServer(null);
+    setCurrentQueue(null);
+  };
+
   const fetchStats = async () => {
     try {
       const response = await fetch('/api/stats');
@@ -87,7 +200,7 @@ export const Dashboard: React.FC<DashboardProps> = () => {
 
   const fetchServers = async () => {
     try {
-      const response = await fetch('/api/servers');
+      const response = await fetch('/api/servers', { credentials: 'include' });
       const data = await response.json();
       setServers(data);
     } catch (error) {
@@ -95,7 +208,7 @@ export const Dashboard: React.FC<DashboardProps> = () => {
     }
   };
 
-  const controlPlayer = (action: 'play' | 'pause' | 'skip' | 'stop' | 'shuffle') => {
+  const controlPlayer = (action: PlayerAction) => {
     if (socket && selectedServer) {
       socket.emit('control-player', selectedServer, action);
     }
@@ -107,21 +220,66 @@ export const Dashboard: React.FC<DashboardProps> = () => {
     }
   };
 
+  const commitSeek = () => {
+    if (socket && selectedServer && seekPreview !== null) {
+      socket.emit('seek', selectedServer, seekPreview);
+      setPosition(seekPreview);
+    }
+    setSeekPreview(null);
+  };
+
   const removeTrack = (index: number) => {
     if (socket && selectedServer) {
       socket.emit('remove-track', selectedServer, index);
     }
   };
 
-  const formatDuration = (seconds: number): string => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-    
-    if (hours > 0) {
-      return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const searchTracks = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!socket || !query) return;
+
+    latestSearchRef.current = query;
+    setIsSearching(true);
+    socket.emit('search-tracks', query);
+  };
+
+  const addTrack = (url: string) => {
+    if (socket && selectedServer) {
+      socket.emit('add-track', selectedServer, url);
+    }
+  };
+
+  const skipToTrack = (index: number) => {
+    if (socket && selectedServer) {
+      socket.emit('skip-to', selectedServer, index);
+    }
+  };
+
+  const requeueTrack = (historyIndex: number) => {
+    if (socket && selectedServer) {
+      socket.emit('requeue-track', selectedServer, historyIndex);
+    }
+  };
+
+  const moveTrack = (from: number, to: number) => {
+    if (!socket || !selectedServer || !currentQueue || from === to) return;
+
+    // Reorder locally right away; the server's queue-update confirms it for every client
+    const tracks = [...currentQueue.tracks];
+    const [track] = tracks.splice(from, 1);
+    tracks.splice(to, 0, track);
+    setCurrentQueue({ ...currentQueue, tracks });
+
+    socket.emit('move-track', selectedServer, from, to);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      moveTrack(dragIndex, index);
     }
-    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+    setDragIndex(null);
+    setDropIndex(null);
   };
 
   const formatUptime = (ms: number): string => {
@@ -141,6 +299,33 @@ export const Dashboard: React.FC<DashboardProps> = () => {
 
   const selectedServerInfo = servers.find(s => s.id === selectedServer);
 
+  if (!authChecked) {
+    return <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900" />;
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
+        <div className="bg-black/40 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-10 text-center max-w-sm">
+          <div className="p-3 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl inline-flex mb-4">
+            <Music className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-xl font-bold text-white mb-2">Discord Music Bot</h1>
+          <p className="text-gray-400 text-sm mb-6">
+            Log in with Discord to control music in the servers you share with the bot.
+          </p>
+          <a
+            href="/auth/login"
+            className="inline-flex items-center px-5 py-3 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl text-white font-medium hover:shadow-lg transition-shadow"
+          >
+            <LogIn className="w-5 h-5 mr-2" />
+            Login with Discord
+          </a>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
       {/* Header */}
@@ -178,11 +363,34 @@ export const Dashboard: React.FC<DashboardProps> = () => {
                 </div>
               </div>
             )}
+
+            <div className="flex items-center space-x-3">
+              {user.avatar && (
+                <img src={user.avatar} alt={user.username} className="w-8 h-8 rounded-full" />
+              )}
+              <span className="text-gray-300 text-sm">{user.username}</span>
+              <button
+                onClick={logout}
+                title="Log out"
+                className="p-2 bg-gray-700/50 rounded-lg text-gray-300 hover:bg-gray-600/50 transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-6 py-8">
+        {errorMessage && (
+          <div className="mb-6 flex items-center justify-between p-4 bg-red-500/20 border border-red-500/30 rounded-xl text-red-200 text-sm">
+            <span>{errorMessage}</span>
+            <button onClick={() => setErrorMessage(null)} className="text-red-300 hover:text-red-100">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Server Selection */}
           <div className="lg:col-span-1">
@@ -247,8 +455,63 @@ export const Dashboard: React.FC<DashboardProps> = () => {
 
           {/* Player & Queue */}
           <div className="lg:col-span-2 space-y-8">
+            {/* Tabs */}
+            {selectedServer && (
+              <div className="flex space-x-2">
+                {([
+                  { id: 'player', label: 'Player', Icon: Music },
+                  { id: 'lyrics', label: 'Lyrics', Icon: FileText },
+                  { id: 'filters', label: 'Filters', Icon: SlidersHorizontal },
+                  { id: 'playlists', label: 'Playlists', Icon: ListMusic }
+                ] as const).map(({ id, label, Icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => setActiveTab(id)}
+                    className={`flex items-center px-4 py-2 rounded-xl text-sm font-medium transition-colors ${
+                      activeTab === id
+                        ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white border border-purple-500/30'
+                        : 'bg-gray-800/50 text-gray-400 hover:text-white border border-gray-700/50'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4 mr-2" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Lyrics */}
+            {activeTab === 'lyrics' && socket && selectedServer && (
+              <LyricsPanel
+                socket={socket}
+                serverId={selectedServer}
+                track={currentQueue?.currentTrack ?? null}
+                position={position}
+              />
+            )}
+
+            {/* Filters */}
+            {activeTab === 'filters' && socket && selectedServer && (
+              selectedServerInfo?.isConnected && currentQueue ? (
+                <FiltersPanel socket={socket} serverId={selectedServer} filters={currentQueue.filters} />
+              ) : (
+                <div className="bg-black/40 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6 text-gray-400">
+                  Start playing something to use audio filters.
+                </div>
+              )
+            )}
+
+            {/* Playlists */}
+            {activeTab === 'playlists' && socket && selectedServer && (
+              <PlaylistsPanel
+                socket={socket}
+                serverId={selectedServer}
+                canSave={!!currentQueue?.currentTrack || !!currentQueue?.tracks.length}
+              />
+            )}
+
             {/* Now Playing */}
-            {currentQueue?.currentTrack && (
+            {activeTab === 'player' && currentQueue?.currentTrack && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -271,8 +534,12 @@ export const Dashboard: React.FC<DashboardProps> = () => {
                     <h3 className="text-white font-medium mb-1">
                       {currentQueue.currentTrack.title}
                     </h3>
-                    <div className="text-gray-400 text-sm">
-                      Requested by {currentQueue.currentTrack.requester.username} • 
+                    <div className="text-gray-400 text-sm flex items-center">
+                      {currentQueue.currentTrack.autoplay ? (
+                        <><Radio className="w-3 h-3 mr-1" />Picked by autoplay • </>
+                      ) : (
+                        <>Requested by {currentQueue.currentTrack.requester.username} • </>
+                      )}
                       {formatDuration(currentQueue.currentTrack.duration)}
                     </div>
                   </div>
@@ -289,9 +556,39 @@ export const Dashboard: React.FC<DashboardProps> = () => {
                   </div>
                 </div>
 
+                {/* Progress Bar */}
+                <div className="mt-4">
+                  <input
+                    type="range"
+                    min="0"
+                    max={trackDuration}
+                    value={Math.min(seekPreview ?? position, trackDuration)}
+                    disabled={trackDuration === 0}
+                    onChange={(e) => setSeekPreview(parseInt(e.target.value))}
+                    onPointerUp={commitSeek}
+                    onKeyUp={commitSeek}
+                    className="w-full accent-purple-500"
+                  />
+                  <div className="flex justify-between text-gray-400 text-xs mt-1">
+                    <span>{formatDuration(seekPreview ?? position)}</span>
+                    <span>{formatDuration(trackDuration)}</span>
+                  </div>
+                </div>
+
                 {/* Player Controls */}
                 <div className="flex items-center justify-between mt-6">
                   <div className="flex items-center space-x-3">
+                    <motion.button
+                      whileHover={{ scale: 1.1 }}
+                      whileTap={{ scale: 0.9 }}
+                      onClick={() => controlPlayer('previous')}
+                      disabled={!currentQueue.history.length}
+                      title="Previous track"
+                      className="p-3 bg-gray-700 rounded-full text-white hover:bg-gray-600 transition-colors disabled:opacity-50"
+                    >
+                      <SkipBack className="w-5 h-5" />
+                    </motion.button>
+
                     <motion.button
                       whileHover={{ scale: 1.1 }}
                       whileTap={{ scale: 0.9 }}
@@ -331,6 +628,34 @@ export const Dashboard: React.FC<DashboardProps> = () => {
                     >
                       <Shuffle className="w-5 h-5" />
                     </motion.button>
+                    
+                    <motion.button
+                      whileHover={{ scale: 1.1 }}
+                      whileTap={{ scale: 0.9 }}
+                      onClick={() => controlPlayer('loop')}
+                      title={`Loop: ${currentQueue.loop}`}
+                      className={`p-3 rounded-full text-white transition-colors ${
+                        currentQueue.loop !== 'none'
+                          ? 'bg-gradient-to-r from-purple-500 to-pink-500' 
+                          : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      {currentQueue.loop === 'track' ? <Repeat1 className="w-5 h-5" /> : <Repeat className="w-5 h-5" />}
+                    </motion.button>
+
+                    <motion.button
+                      whileHover={{ scale: 1.1 }}
+                      whileTap={{ scale: 0.9 }}
+                      onClick={() => controlPlayer('autoplay')}
+                      title={`Autoplay related songs: ${currentQueue.autoplay ? 'on' : 'off'}`}
+                      className={`p-3 rounded-full text-white transition-colors ${
+                        currentQueue.autoplay
+                          ? 'bg-gradient-to-r from-purple-500 to-pink-500'
+                          : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      <Radio className="w-5 h-5" />
+                    </motion.button>
                   </div>
 
                   {/* Volume Control */}
@@ -339,7 +664,7 @@ export const Dashboard: React.FC<DashboardProps> = () => {
                     <input
                       type="range"
                       min="0"
-                      max="100"
+                      max={selectedServerInfo?.settings.maxVolume ?? 100}
                       value={currentQueue.volume}
                       onChange={(e) => setVolume(parseInt(e.target.value))}
                       className="w-24 accent-purple-500"
@@ -352,74 +677,211 @@ export const Dashboard: React.FC<DashboardProps> = () => {
               </motion.div>
             )}
 
-            {/* Queue */}
-            <div className="bg-black/40 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h2 className="text-lg font-semibold text-white flex items-center">
-                  <Music className="w-5 h-5 mr-2" />
-                  Queue
+            {/* Add Music */}
+            {activeTab === 'player' && selectedServer && (
+              <div className="bg-black/40 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6">
+                <h2 className="text-lg font-semibold text-white mb-4 flex items-center">
+                  <Search className="w-5 h-5 mr-2" />
+                  Add Music
                 </h2>
-                {selectedServerInfo && (
-                  <div className="text-gray-400 text-sm">
-                    {selectedServerInfo.queue.tracks.length} tracks
+
+                <form onSubmit={searchTracks} className="flex items-center space-x-3">
+                  <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search YouTube or paste a link..."
+                    className="flex-1 px-4 py-2 bg-gray-800/50 border border-gray-700/50 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:border-purple-500/50"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isSearching || !searchQuery.trim()}
+                    className="p-2 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl text-white disabled:opacity-50"
+                  >
+                    {isSearching ? <Loader2 className="w-5 h-5 animate-spin" /> : <Search className="w-5 h-5" />}
+                  </button>
+                </form>
+
+                {searchResults.length > 0 && (
+                  <div className="space-y-2 mt-4">
+                    {searchResults.map((result) => (
+                      <div
+                        key={result.id}
+                        className="flex items-center space-x-4 p-3 bg-gray-800/30 rounded-xl hover:bg-gray-700/30 transition-colors"
+                      >
+                        {result.thumbnail && (
+                          <img
+                            src={result.thumbnail}
+                            alt={result.title}
+                            className="w-16 h-10 rounded-lg object-cover"
+                          />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <div className="text-white font-medium truncate">{result.title}</div>
+                          <div className="text-gray-400 text-sm">
+                            {result.channel ? `${result.channel} • ` : ''}{formatDuration(result.duration)}
+                          </div>
+                        </div>
+                        <motion.button
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.9 }}
+                          onClick={() => addTrack(result.url)}
+                          title="Add to queue"
+                          className="p-2 bg-purple-500/20 text-purple-300 rounded-lg hover:bg-purple-500/30"
+                        >
+                          <Plus className="w-4 h-4" />
+                        </motion.button>
+                      </div>
+                    ))}
                   </div>
                 )}
               </div>
+            )}
 
-              <div className="space-y-3">
-                <AnimatePresence>
-                  {currentQueue?.tracks.map((track, index) => (
-                    <motion.div
+            {/* Queue */}
+            {activeTab === 'player' && (
+              <div className="bg-black/40 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-white flex items-center">
+                    <Music className="w-5 h-5 mr-2" />
+                    Queue
+                  </h2>
+                  {selectedServerInfo && (
+                    <div className="text-gray-400 text-sm">
+                      {selectedServerInfo.queue.tracks.length} tracks
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  <AnimatePresence>
+                    {currentQueue?.tracks.map((track, index) => (
+                      <motion.div
+                        key={`${track.id}-${index}`}
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 20 }}
+                      >
+                        <div
+                          draggable
+                          onDragStart={() => setDragIndex(index)}
+                          onDragOver={(e) => {
+                            e.preventDefault();
+                            setDropIndex(index);
+                          }}
+                          onDragLeave={() => setDropIndex(null)}
+                          onDrop={() => handleDrop(index)}
+                          onDragEnd={() => {
+                            setDragIndex(null);
+                            setDropIndex(null);
+                          }}
+                          className={`flex items-center space-x-4 p-4 rounded-xl transition-colors group cursor-grab ${
+                            dropIndex === index && dragIndex !== index
+                              ? 'bg-purple-500/20 border border-purple-500/40'
+                              : 'bg-gray-800/30 hover:bg-gray-700/30 border border-transparent'
+                          } ${dragIndex === index ? 'opacity-50' : ''}`}
+                        >
+                          <GripVertical className="w-4 h-4 text-gray-500" />
+
+                          <div className="text-gray-400 font-mono text-sm w-6">
+                            {index + 1}
+                          </div>
+                        
+                          {track.thumbnail && (
+                            <img
+                              src={track.thumbnail}
+                              alt={track.title}
+                              className="w-12 h-12 rounded-lg object-cover"
+                            />
+                          )}
+                        
+                          <div className="flex-1">
+                            <div className="text-white font-medium">{track.title}</div>
+                            <div className="text-gray-400 text-sm flex items-center">
+                              {track.autoplay && <Radio className="w-3 h-3 mr-1" />}
+                              {track.autoplay ? 'Autoplay' : track.requester.username} • {formatDuration(track.duration)}
+                            </div>
+                          </div>
+                        
+                          <motion.button
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            onClick={() => skipToTrack(index)}
+                            title="Play now"
+                            className="p-2 bg-purple-500/20 text-purple-300 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity hover:bg-purple-500/30"
+                          >
+                            <ChevronsRight className="w-4 h-4" />
+                          </motion.button>
+
+                          <motion.button
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            onClick={() => removeTrack(index)}
+                            className="p-2 bg-red-500/20 text-red-400 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500/30"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </motion.button>
+                        </div>
+                      </motion.div>
+                    ))}
+                  </AnimatePresence>
+                  
+                  {(!currentQueue?.tracks.length && !currentQueue?.currentTrack) && (
+                    <div className="text-center py-12">
+                      <Music className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+                      <div className="text-gray-400">
+                        No music in queue. Search above or use Discord commands to add tracks!
+                      </div>
+                      <div className="text-gray-500 text-sm mt-2">
+                        Try: <code className="bg-gray-800 px-2 py-1 rounded">/play [song name]</code>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Recently Played */}
+            {activeTab === 'player' && !!currentQueue?.history.length && (
+              <div className="bg-black/40 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6">
+                <h2 className="text-lg font-semibold text-white mb-4 flex items-center">
+                  <History className="w-5 h-5 mr-2" />
+                  Recently Played
+                </h2>
+
+                <div className="space-y-2">
+                  {currentQueue.history.map((track, index) => (
+                    <div
                       key={`${track.id}-${index}`}
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      exit={{ opacity: 0, x: 20 }}
-                      className="flex items-center space-x-4 p-4 bg-gray-800/30 rounded-xl hover:bg-gray-700/30 transition-colors group"
+                      className="flex items-center space-x-4 p-3 bg-gray-800/30 rounded-xl hover:bg-gray-700/30 transition-colors group"
                     >
-                      <div className="text-gray-400 font-mono text-sm w-6">
-                        {index + 1}
-                      </div>
-                      
                       {track.thumbnail && (
                         <img
                           src={track.thumbnail}
                           alt={track.title}
-                          className="w-12 h-12 rounded-lg object-cover"
+                          className="w-10 h-10 rounded-lg object-cover"
                         />
                       )}
-                      
-                      <div className="flex-1">
-                        <div className="text-white font-medium">{track.title}</div>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-white font-medium truncate">{track.title}</div>
                         <div className="text-gray-400 text-sm">
                           {track.requester.username} • {formatDuration(track.duration)}
                         </div>
                       </div>
-                      
                       <motion.button
                         whileHover={{ scale: 1.1 }}
                         whileTap={{ scale: 0.9 }}
-                        onClick={() => removeTrack(index)}
-                        className="p-2 bg-red-500/20 text-red-400 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500/30"
+                        onClick={() => requeueTrack(index)}
+                        title="Add to queue again"
+                        className="p-2 bg-purple-500/20 text-purple-300 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity hover:bg-purple-500/30"
                       >
-                        <Trash2 className="w-4 h-4" />
+                        <Plus className="w-4 h-4" />
                       </motion.button>
-                    </motion.div>
-                  ))}
-                </AnimatePresence>
-                
-                {(!currentQueue?.tracks.length && !currentQueue?.currentTrack) && (
-                  <div className="text-center py-12">
-                    <Music className="w-12 h-12 text-gray-600 mx-auto mb-4" />
-                    <div className="text-gray-400">
-                      No music in queue. Use Discord commands to add tracks!
-                    </div>
-                    <div className="text-gray-500 text-sm mt-2">
-                      Try: <code className="bg-gray-800 px-2 py-1 rounded">/play [song name]</code>
                     </div>
-                  </div>
-                )}
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { Socket } from 'socket.io-client';
+import { AudioFilters } from '../shared/types';
+import { EQ_BANDS, EQ_MAX_GAIN, FILTER_PRESETS, createDefaultFilters, enablePreset, hasActiveFilters } from '../shared/filters';
+import { formatFrequency } from '../shared/format';
+
+interface FiltersPanelProps {
+  socket: Socket;
+  serverId: string;
+  filters: AudioFilters;
+}
+
+export const FiltersPanel: React.FC<FiltersPanelProps> = ({ socket, serverId, filters }) => {
+  // Gains being dragged; every change restarts the stream, so they are only sent on release
+  const [equalizerPreview, setEqualizerPreview] = useState<number[] | null>(null);
+  const equalizer = equalizerPreview ?? filters.equalizer;
+
+  const applyFilters = (changes: Partial<AudioFilters>) => {
+    socket.emit('set-filters', serverId, { ...filters, ...changes });
+  };
+
+  const togglePreset = (preset: AudioFilters['presets'][number]) => {
+    applyFilters({
+      presets: filters.presets.includes(preset)
+        ? filters.presets.filter(active => active !== preset)
+        : enablePreset(filters.presets, preset)
+    });
+  };
+
+  const previewBand = (index: number, gain: number) => {
+    setEqualizerPreview(equalizer.map((current, band) => band === index ? gain : current));
+  };
+
+  const commitEqualizer = () => {
+    if (equalizerPreview) {
+      applyFilters({ equalizer: equalizerPreview });
+    }
+    setEqualizerPreview(null);
+  };
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center">
+          <SlidersHorizontal className="w-5 h-5 mr-2" />
+          Audio Filters
+        </h2>
+        <button
+          onClick={() => applyFilters(createDefaultFilters())}
+          disabled={!hasActiveFilters(filters)}
+          className="flex items-center text-sm text-gray-400 hover:text-white disabled:opacity-50 disabled:hover:text-gray-400"
+        >
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-8">
+        {FILTER_PRESETS.map((preset) => {
+          const isActive = filters.presets.includes(preset.id);
+          return (
+            <motion.button
+              key={preset.id}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => togglePreset(preset.id)}
+              className={`p-3 rounded-xl text-left border transition-colors ${
+                isActive
+                  ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-500/50'
+                  : 'bg-gray-800/50 border-gray-700/50 hover:border-purple-500/30'
+              }`}
+            >
+              <div className="text-white font-medium">{preset.name}</div>
+              <div className="text-gray-400 text-xs">{preset.description}</div>
+            </motion.button>
+          );
+        })}
+      </div>
+
+      <h3 className="text-gray-300 text-sm font-medium mb-3">Equalizer</h3>
+      <div className="space-y-2">
+        {EQ_BANDS.map((frequency, index) => (
+          <div key={frequency} className="flex items-center space-x-3">
+            <span className="text-gray-400 text-xs w-14 text-right">{formatFrequency(frequency)}</span>
+            <input
+              type="range"
+              min={-EQ_MAX_GAIN}
+              max={EQ_MAX_GAIN}
+              value={equalizer[index]}
+              onChange={(e) => previewBand(index, parseInt(e.target.value))}
+              onPointerUp={commitEqualizer}
+              onKeyUp={commitEqualizer}
+              className="flex-1 accent-purple-500"
+            />
+            <span className="text-gray-400 text-xs w-12">
+              {equalizer[index] > 0 ? '+' : ''}{equalizer[index]} dB
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FiltersPanel;
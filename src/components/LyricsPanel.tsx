@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { Socket } from 'socket.io-client';
+import { Lyrics, Track } from '../shared/types';
+
+interface LyricsPanelProps {
+  socket: Socket;
+  serverId: string;
+  track: Track | null;
+  // Seconds into the current track
+  position: number;
+}
+
+export const LyricsPanel: React.FC<LyricsPanelProps> = ({ socket, serverId, track, position }) => {
+  const [lyrics, setLyrics] = useState<Lyrics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeLineRef = useRef<HTMLDivElement>(null);
+  const trackId = track?.id;
+
+  useEffect(() => {
+    setLyrics(null);
+    setIsLoading(!!trackId);
+    if (!trackId) return;
+
+    const handleLyrics = (lyricsServerId: string, lyricsTrackId: string, result: Lyrics | null) => {
+      if (lyricsServerId !== serverId || lyricsTrackId !== trackId) return;
+      setLyrics(result);
+      setIsLoading(false);
+    };
+
+    socket.on('lyrics', handleLyrics);
+    socket.emit('get-lyrics', serverId);
+
+    return () => {
+      socket.off('lyrics', handleLyrics);
+    };
+  }, [socket, serverId, trackId]);
+
+  // The line being sung is the last one whose timestamp has passed
+  const synced = lyrics?.synced;
+  let activeLine = -1;
+  if (synced) {
+    for (let i = 0; i < synced.length && synced[i].time <= position; i++) {
+      activeLine = i;
+    }
+  }
+
+  // Keep the active line in the middle of the panel without scrolling the whole page
+  useEffect(() => {
+    const container = containerRef.current;
+    const line = activeLineRef.current;
+    if (!container || !line) return;
+
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: 'smooth'
+    });
+  }, [activeLine]);
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6">
+      <h2 className="text-lg font-semibold text-white mb-1 flex items-center">
+        <FileText className="w-5 h-5 mr-2" />
+        Lyrics
+      </h2>
+      {lyrics && (
+        <div className="text-gray-400 text-sm mb-4">
+          {lyrics.artist ? `${lyrics.artist} - ${lyrics.title}` : lyrics.title} • from {lyrics.source}
+          {synced && ' • synced'}
+        </div>
+      )}
+
+      {!track ? (
+        <div className="text-gray-500 text-sm">Nothing is playing.</div>
+      ) : isLoading ? (
+        <div className="flex items-center text-gray-400 text-sm">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Looking up lyrics for {track.title}...
+        </div>
+      ) : !lyrics ? (
+        <div className="text-gray-500 text-sm">No lyrics found for {track.title}.</div>
+      ) : (
+        <div ref={containerRef} className="relative max-h-96 overflow-y-auto space-y-1 pr-2">
+          {synced ? (
+            synced.map((line, index) => (
+              <div
+                key={`${line.time}-${index}`}
+                ref={index === activeLine ? activeLineRef : undefined}
+                className={`transition-colors ${
+                  index === activeLine
+                    ? 'text-white text-lg font-semibold'
+                    : index < activeLine ? 'text-gray-500' : 'text-gray-400'
+                }`}
+              >
+                {line.text || '♪'}
+              </div>
+            ))
+          ) : (
+            <div className="text-gray-300 whitespace-pre-line">{lyrics.plain}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LyricsPanel;
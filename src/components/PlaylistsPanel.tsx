@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ListMusic,
+  Play,
+  Pencil,
+  Trash2,
+  ChevronDown,
+  ChevronRight,
+  Save,
+  X
+} from 'lucide-react';
+import { Socket } from 'socket.io-client';
+import { Playlist, PlaylistScope } from '../shared/types';
+import { formatDuration } from '../shared/format';
+
+interface PlaylistsPanelProps {
+  socket: Socket;
+  serverId: string;
+  // Saving needs something in the queue to save
+  canSave: boolean;
+}
+
+export const PlaylistsPanel: React.FC<PlaylistsPanelProps> = ({ socket, serverId, canSave }) => {
+  const [guildPlaylists, setGuildPlaylists] = useState<Playlist[]>([]);
+  const [userPlaylists, setUserPlaylists] = useState<Playlist[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newScope, setNewScope] = useState<PlaylistScope>('guild');
+
+  useEffect(() => {
+    const handleUpdate = (scope: PlaylistScope, ownerId: string, playlists: Playlist[]) => {
+      if (scope === 'guild') {
+        if (ownerId === serverId) setGuildPlaylists(playlists);
+      } else {
+        setUserPlaylists(playlists);
+      }
+    };
+
+    setGuildPlaylists([]);
+    socket.on('playlists-update', handleUpdate);
+    socket.emit('get-playlists', serverId);
+
+    return () => {
+      socket.off('playlists-update', handleUpdate);
+    };
+  }, [socket, serverId]);
+
+  const savePlaylist = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    socket.emit('save-playlist', serverId, newName.trim(), newScope);
+    setNewName('');
+  };
+
+  const renamePlaylist = (e: React.FormEvent, playlistId: string) => {
+    e.preventDefault();
+    if (editName.trim()) {
+      socket.emit('rename-playlist', serverId, playlistId, editName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const renderPlaylist = (playlist: Playlist) => {
+    const isExpanded = expandedId === playlist.id;
+    const totalDuration = playlist.tracks.reduce((total, track) => total + track.duration, 0);
+
+    return (
+      <div key={playlist.id} className="bg-gray-800/30 rounded-xl">
+        <div className="flex items-center space-x-3 p-3 group">
+          <button
+            onClick={() => setExpandedId(isExpanded ? null : playlist.id)}
+            className="text-gray-400 hover:text-white"
+          >
+            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          </button>
+
+          <div className="flex-1 min-w-0">
+            {editingId === playlist.id ? (
+              <form onSubmit={(e) => renamePlaylist(e, playlist.id)} className="flex items-center space-x-2">
+                <input
+                  autoFocus
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onBlur={() => setEditingId(null)}
+                  className="flex-1 px-2 py-1 bg-gray-800/50 border border-purple-500/50 rounded-lg text-white text-sm focus:outline-none"
+                />
+              </form>
+            ) : (
+              <>
+                <div className="text-white font-medium truncate">{playlist.name}</div>
+                <div className="text-gray-400 text-sm">
+                  {playlist.tracks.length} tracks • {formatDuration(totalDuration)} • by {playlist.createdBy.username}
+                </div>
+              </>
+            )}
+          </div>
+
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => socket.emit('load-playlist', serverId, playlist.id)}
+            disabled={!playlist.tracks.length}
+            title="Add to queue"
+            className="p-2 bg-purple-500/20 text-purple-300 rounded-lg hover:bg-purple-500/30 disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+          </motion.button>
+
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => {
+              setEditingId(playlist.id);
+              setEditName(playlist.name);
+            }}
+            title="Rename"
+            className="p-2 bg-gray-700/50 text-gray-300 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity hover:bg-gray-600/50"
+          >
+            <Pencil className="w-4 h-4" />
+          </motion.button>
+
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => socket.emit('delete-playlist', serverId, playlist.id)}
+            title="Delete playlist"
+            className="p-2 bg-red-500/20 text-red-400 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500/30"
+          >
+            <Trash2 className="w-4 h-4" />
+          </motion.button>
+        </div>
+
+        <AnimatePresence>
+          {isExpanded && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="px-3 pb-3 space-y-1">
+                {playlist.tracks.map((track, index) => (
+                  <div
+                    key={`${track.id}-${index}`}
+                    className="flex items-center space-x-3 px-3 py-2 rounded-lg hover:bg-gray-700/30 group/track"
+                  >
+                    <div className="text-gray-500 font-mono text-xs w-6">{index + 1}</div>
+                    <div className="flex-1 min-w-0 text-gray-200 text-sm truncate">{track.title}</div>
+                    <div className="text-gray-500 text-xs">{formatDuration(track.duration)}</div>
+                    <button
+                      onClick={() => socket.emit('remove-playlist-track', serverId, playlist.id, index)}
+                      title="Remove from playlist"
+                      className="text-red-400 opacity-0 group-hover/track:opacity-100 transition-opacity hover:text-red-300"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                {!playlist.tracks.length && (
+                  <div className="text-gray-500 text-sm px-3 py-2">
+                    Empty. Add songs with <code className="bg-gray-800 px-1 rounded">/playlist add</code>
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6">
+      <h2 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <ListMusic className="w-5 h-5 mr-2" />
+        Playlists
+      </h2>
+
+      <form onSubmit={savePlaylist} className="flex items-center space-x-3 mb-6">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={canSave ? 'Save the current queue as...' : 'Queue something to save it as a playlist'}
+          disabled={!canSave}
+          className="flex-1 px-4 py-2 bg-gray-800/50 border border-gray-700/50 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:border-purple-500/50 disabled:opacity-50"
+        />
+        <select
+          value={newScope}
+          onChange={(e) => setNewScope(e.target.value as PlaylistScope)}
+          disabled={!canSave}
+          className="px-3 py-2 bg-gray-800/50 border border-gray-700/50 rounded-xl text-white focus:outline-none disabled:opacity-50"
+        >
+          <option value="guild">Server</option>
+          <option value="user">Personal</option>
+        </select>
+        <button
+          type="submit"
+          disabled={!canSave || !newName.trim()}
+          title="Save playlist"
+          className="p-2 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl text-white disabled:opacity-50"
+        >
+          <Save className="w-5 h-5" />
+        </button>
+      </form>
+
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-gray-300 text-sm font-medium mb-2">Server Playlists</h3>
+          <div className="space-y-2">
+            {guildPlaylists.map(renderPlaylist)}
+            {!guildPlaylists.length && (
+              <div className="text-gray-500 text-sm">No server playlists yet.</div>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-gray-300 text-sm font-medium mb-2">Your Playlists</h3>
+          <div className="space-y-2">
+            {userPlaylists.map(renderPlaylist)}
+            {!userPlaylists.length && (
+              <div className="text-gray-500 text-sm">No personal playlists yet.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistsPanel;
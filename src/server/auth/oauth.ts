@@ -0,0 +1,149 @@
+import { randomBytes } from 'crypto';
+import express from 'express';
+import cookieSession from 'cookie-session';
+import { Client } from 'discord.js';
+import { logger } from '../utils/logger.js';
+import { DashboardUser } from '../../shared/types.js';
+
+const DISCORD_API = 'https://discord.com/api/v10';
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface DashboardSession {
+  user?: DashboardUser;
+  // Guilds the user shared with the bot when they logged in
+  guildIds?: string[];
+  oauthState?: string;
+}
+
+export function createSessionMiddleware() {
+  if (!process.env.SESSION_SECRET) {
+    logger.warn('SESSION_SECRET not set - dashboard sessions will not survive a restart');
+  }
+
+  return cookieSession({
+    name: 'dashboard_session',
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString('hex'),
+    maxAge: SESSION_MAX_AGE_MS,
+    sameSite: 'lax',
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production'
+  });
+}
+
+export function getSession(req: express.Request): DashboardSession {
+  return (req.session ?? {}) as DashboardSession;
+}
+
+export function setupAuthRoutes(app: express.Application, client: Client) {
+  app.get('/auth/login', (req, res) => {
+    if (!process.env.DISCORD_CLIENT_SECRET) {
+      res.status(503).send('Dashboard login is not configured');
+      return;
+    }
+
+    const state = randomBytes(16).toString('hex');
+    getSession(req).oauthState = state;
+
+    const params = new URLSearchParams({
+      client_id: process.env.DISCORD_CLIENT_ID!,
+      redirect_uri: getRedirectUri(),
+      response_type: 'code',
+      scope: 'identify guilds',
+      state,
+      prompt: 'none'
+    });
+    res.redirect(`https://discord.com/oauth2/authorize?${params}`);
+  });
+
+  app.get('/auth/callback', async (req, res) => {
+    const session = getSession(req);
+    const { code, state } = req.query;
+
+    if (typeof code !== 'string' || !state || state !== session.oauthState) {
+      res.status(400).send('Invalid login attempt, please try again');
+      return;
+    }
+
+    try {
+      const accessToken = await exchangeCode(code);
+      const [user, guilds] = await Promise.all([
+        fetchDiscord<{ id: string; username: string; global_name?: string; avatar?: string }>('/users/@me', accessToken),
+        fetchDiscord<{ id: string }[]>('/users/@me/guilds', accessToken)
+      ]);
+
+      session.oauthState = undefined;
+      session.user = {
+        id: user.id,
+        username: user.global_name || user.username,
+        avatar: user.avatar ? `https://cdn.discordapp.com/avatars/${user.id}/${user.avatar}.png` : undefined
+      };
+      session.guildIds = guilds.map(guild => guild.id).filter(id => client.guilds.cache.has(id));
+
+      logger.info(`Dashboard login: ${session.user.username} (${session.user.id})`);
+      res.redirect('/');
+    } catch (error) {
+      logger.error('Dashboard login failed:', error);
+      res.status(502).send('Login with Discord failed, please try again');
+    }
+  });
+
+  app.post('/auth/logout', (req, res) => {
+    req.session = null;
+    res.status(204).end();
+  });
+
+  app.get('/api/me', (req, res) => {
+    const { user } = getSession(req);
+    if (!user) {
+      res.status(401).json({ error: 'Not logged in' });
+      return;
+    }
+    res.json(user);
+  });
+}
+
+export function requireLogin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!getSession(req).user) {
+    res.status(401).json({ error: 'Not logged in' });
+    return;
+  }
+  next();
+}
+
+function getRedirectUri(): string {
+  const baseUrl = process.env.DASHBOARD_URL || `http://localhost:${process.env.PORT || 3000}`;
+  return `${baseUrl.replace(/\/$/, '')}/auth/callback`;
+}
+
+async function exchangeCode(code: string): Promise<string> {
+  const response = await fetch(`${DISCORD_API}/oauth2/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: process.env.DISCORD_CLIENT_ID!,
+      client_secret: process.env.DISCORD_CLIENT_SECRET!,
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUri()
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Token exchange failed with status ${response.status}`);
+  }
+
+  const data = await response.json() as { access_token: string };
+  return data.access_token;
+}
+
+async function fetchDiscord<T>(route: string, accessToken: string): Promise<T> {
+  const response = await fetch(`${DISCORD_API}${route}`, {
+    headers: { Authorization: `Bearer ${accessToken}` }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Discord API ${route} failed with status ${response.status}`);
+  }
+
+  return response.json() as Promise<T>;
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Collection, GuildMember, PermissionFlagsBits } from 'discord.js';
+import { Track } from '../../shared/types.js';
+import { canAffectTracks, isDJ } from './permissions.js';
+
+const GUILD_ID = 'guild';
+
+function createMember(options: { id?: string; roles?: { id: string; name: string }[]; manageGuild?: boolean } = {}): GuildMember {
+  return {
+    id: options.id ?? 'member',
+    guild: { id: GUILD_ID },
+    permissions: { has: (flag: bigint) => flag === PermissionFlagsBits.ManageGuild && !!options.manageGuild },
+    roles: { cache: new Collection((options.roles ?? []).map(role => [role.id, role])) }
+  } as unknown as GuildMember;
+}
+
+function createTrack(requesterId: string): Track {
+  return {
+    id: requesterId,
+    title: 'Track',
+    duration: 180,
+    url: 'https://example.com/track.mp3',
+    requester: { id: requesterId, username: requesterId },
+    source: 'http'
+  };
+}
+
+describe('isDJ', () => {
+  afterEach(() => {
+    delete process.env.DJ_ROLE_NAME;
+  });
+
+  it('lets server managers in', () => {
+    assert.equal(isDJ(createMember({ manageGuild: true }), 'dj-role'), true);
+  });
+
+  it('checks the configured DJ role', () => {
+    assert.equal(isDJ(createMember({ roles: [{ id: 'dj-role', name: 'Music' }] }), 'dj-role'), true);
+    assert.equal(isDJ(createMember({ roles: [{ id: 'other', name: 'DJ' }] }), 'dj-role'), false);
+  });
+
+  it('treats @everyone as the DJ role as open to all', () => {
+    assert.equal(isDJ(createMember(), GUILD_ID), true);
+  });
+
+  it('falls back to a role named DJ_ROLE_NAME while none is configured', () => {
+    assert.equal(isDJ(createMember({ roles: [{ id: 'role', name: 'dj' }] })), true);
+    assert.equal(isDJ(createMember({ roles: [{ id: 'role', name: 'Listener' }] })), false);
+
+    process.env.DJ_ROLE_NAME = 'Listener';
+    assert.equal(isDJ(createMember({ roles: [{ id: 'role', name: 'Listener' }] })), true);
+  });
+});
+
+describe('canAffectTracks', () => {
+  it('lets DJs affect anyone\'s tracks', () => {
+    assert.equal(canAffectTracks(createMember({ manageGuild: true }), undefined, [createTrack('someone')]), true);
+  });
+
+  it('lets others affect only tracks they requested themselves', () => {
+    const member = createMember();
+
+    assert.equal(canAffectTracks(member, undefined, [createTrack('member'), null, undefined]), true);
+    assert.equal(canAffectTracks(member, undefined, [createTrack('member'), createTrack('someone')]), false);
+  });
+
+  it('needs a DJ when no track is affected', () => {
+    assert.equal(canAffectTracks(createMember(), undefined, []), false);
+    assert.equal(canAffectTracks(createMember(), undefined, [null]), false);
+  });
+});
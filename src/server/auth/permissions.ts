@@ -0,0 +1,41 @@
+import { Client, GuildMember, PermissionFlagsBits } from 'discord.js';
+import { Playlist, Track } from '../../shared/types.js';
+
+export async function getGuildMember(client: Client, guildId: string, userId: string): Promise<GuildMember | null> {
+  const guild = client.guilds.cache.get(guildId);
+  if (!guild) return null;
+
+  try {
+    return await guild.members.fetch(userId);
+  } catch {
+    return null;
+  }
+}
+
+// DJs and server managers may skip, stop and rearrange other people's music. The DJ role is
+// configured per server with /settings; until then any role named DJ_ROLE_NAME counts.
+export function isDJ(member: GuildMember, djRoleId?: string): boolean {
+  if (member.permissions.has(PermissionFlagsBits.ManageGuild)) return true;
+
+  if (djRoleId) {
+    // Picking @everyone as the DJ role opens the controls to the whole server
+    return djRoleId === member.guild.id || member.roles.cache.has(djRoleId);
+  }
+
+  const djRoleName = (process.env.DJ_ROLE_NAME || 'DJ').toLowerCase();
+  return member.roles.cache.some(role => role.name.toLowerCase() === djRoleName);
+}
+
+// Non-DJs may still act on music they queued themselves, as long as nobody else's is affected
+export function canAffectTracks(member: GuildMember, djRoleId: string | undefined, tracks: (Track | null | undefined)[]): boolean {
+  if (isDJ(member, djRoleId)) return true;
+
+  const affected = tracks.filter((track): track is Track => !!track);
+  return affected.length > 0 && affected.every(track => track.requester.id === member.id);
+}
+
+// Personal playlists belong to their owner; server playlists to whoever made them, plus DJs
+export function canEditPlaylist(member: GuildMember, playlist: Playlist, djRoleId?: string): boolean {
+  if (playlist.scope === 'user') return playlist.ownerId === member.id;
+  return playlist.ownerId === member.guild.id && (playlist.createdBy.id === member.id || isDJ(member, djRoleId));
+}
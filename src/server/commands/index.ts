@@ -1,11 +1,91 @@
-import { Client, CommandInteraction, GuildMember, VoiceChannel, TextChannel } from 'discord.js';
-import { Server as SocketServer } from 'socket.io';
-import { MusicManager } from '../music/MusicManager.js';
+import {
+  Client,
+  ChatInputCommandInteraction,
+  ButtonInteraction,
+  AutocompleteInteraction,
+  GuildMember,
+  VoiceChannel,
+  TextChannel,
+  PermissionFlagsBits,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  StringSelectMenuBuilder,
+  StringSelectMenuInteraction,
+  ComponentType,
+  Message,
+  APIEmbed
+} from 'discord.js';
+import { MusicManager, SkipVoteResult } from '../music/MusicManager.js';
+import { PlaylistManager, canSaveTrack } from '../music/PlaylistManager.js';
+import { LyricsService } from '../lyrics/LyricsService.js';
+import { splitLyrics } from '../lyrics/splitLyrics.js';
+import { canAffectTracks, canEditPlaylist } from '../auth/permissions.js';
 import { logger } from '../utils/logger.js';
+import { AudioFilters, FilterPreset, LoopMode, Playlist, PlaylistScope, Queue, SearchResult, Track } from '../../shared/types.js';
+import { formatDuration, formatFrequency, formatLoopMode, parseTimestamp } from '../../shared/format.js';
+import { EQ_BANDS, FILTER_PRESETS, createDefaultFilters, enablePreset, hasActiveFilters } from '../../shared/filters.js';
+import { TRACK_SOURCES } from '../../shared/sources.js';
+import { isAudioFile } from '../music/sources/SourceProvider.js';
+import { LOCAL_PREFIX } from '../music/sources/LocalFileSource.js';
+import { setupNowPlayingMessages, buildNowPlayingMessage, adoptNowPlayingMessage } from './nowPlaying.js';
+
+const SEARCH_RESULT_LIMIT = 10;
+const SEARCH_TIMEOUT_MS = 60_000;
+const QUEUE_PAGE_SIZE = 10;
+const LYRICS_PAGE_LENGTH = 2000;
+// Page buttons stop working after this long without a click
+const PAGE_BUTTON_TIMEOUT_MS = 120_000;
+const FFMPEG_REQUIRED = '❌ Audio files and the music library need FFmpeg, which isn\'t installed on this bot.';
+const UPLOADS_NOT_SAVED = '❌ Uploaded files can\'t be saved in playlists because their Discord links expire. Put them in the music library instead!';
+// Discord shows at most 25 suggestions, each at most 100 characters long
+const AUTOCOMPLETE_LIMIT = 25;
+const AUTOCOMPLETE_MAX_LENGTH = 100;
+
+interface EmbedPage {
+  page: number;
+  pageCount: number;
+  embed: APIEmbed;
+}
+
+// Live tally message of each guild's running skip vote, closed when the track changes
+const skipVoteMessages = new Map<string, Message>();
+
+export function setupCommands(client: Client, musicManager: MusicManager, playlistManager: PlaylistManager, lyricsService: LyricsService) {
+  setupNowPlayingMessages(musicManager);
+
+  musicManager.on('trackEnd', (guildId) => {
+    closeSkipVote(guildId, {
+      color: 0x808080,
+      title: '🗳️ Skip Vote Ended',
+      description: 'The track changed before the vote finished.'
+    });
+  });
 
-export function setupCommands(client: Client, musicManager: MusicManager, io: SocketServer) {
   client.on('interactionCreate', async (interaction) => {
-    if (!interaction.isCommand()) return;
+    if (interaction.isButton()) {
+      try {
+        await handleButtonInteraction(interaction, musicManager);
+      } catch (error) {
+        logger.error(`Error handling button ${interaction.customId}:`, error);
+        if (!interaction.replied && !interaction.deferred) {
+          await interaction.reply({ content: 'An error occurred while handling that button.', ephemeral: true });
+        }
+      }
+      return;
+    }
+
+    if (interaction.isAutocomplete()) {
+      try {
+        await handleAutocomplete(interaction, musicManager);
+      } catch (error) {
+        // Usually the suggestions took longer than Discord waits for them
+        logger.error(`Error handling autocomplete for ${interaction.commandName}:`, error);
+      }
+      return;
+    }
+
+    if (!interaction.isChatInputCommand()) return;
 
     const { commandName, guildId, member, channel } = interaction;
     
@@ -20,19 +100,31 @@ export function setupCommands(client: Client, musicManager: MusicManager, io: So
     try {
       switch (commandName) {
         case 'play':
-          await handlePlayCommand(interaction, musicManager, guildMember, textChannel, io);
+          await handlePlayCommand(interaction, musicManager, guildMember, textChannel);
+          break;
+        case 'playfile':
+          await handlePlayFileCommand(interaction, musicManager, guildMember, textChannel);
+          break;
+        case 'search':
+          await handleSearchCommand(interaction, musicManager, guildMember, textChannel);
           break;
         case 'skip':
-          await handleSkipCommand(interaction, musicManager, guildId, io);
+          await handleSkipCommand(interaction, musicManager, guildId, guildMember);
+          break;
+        case 'playlist':
+          await handlePlaylistCommand(interaction, musicManager, playlistManager, guildMember, textChannel);
+          break;
+        case 'previous':
+          await handlePreviousCommand(interaction, musicManager, guildId, guildMember);
           break;
         case 'pause':
-          await handlePauseCommand(interaction, musicManager, guildId, io);
+          await handlePauseCommand(interaction, musicManager, guildId);
           break;
         case 'resume':
-          await handleResumeCommand(interaction, musicManager, guildId, io);
+          await handleResumeCommand(interaction, musicManager, guildId);
           break;
         case 'stop':
-          await handleStopCommand(interaction, musicManager, guildId, io);
+          await handleStopCommand(interaction, musicManager, guildId, guildMember);
           break;
         case 'queue':
           await handleQueueCommand(interaction, musicManager, guildId);
@@ -41,129 +133,902 @@ export function setupCommands(client: Client, musicManager: MusicManager, io: So
           await handleNowPlayingCommand(interaction, musicManager, guildId);
           break;
         case 'shuffle':
-          await handleShuffleCommand(interaction, musicManager, guildId, io);
+          await handleShuffleCommand(interaction, musicManager, guildId, guildMember);
+          break;
+        case 'move':
+          await handleMoveCommand(interaction, musicManager, guildId, guildMember);
+          break;
+        case 'skipto':
+          await handleSkipToCommand(interaction, musicManager, guildId, guildMember);
+          break;
+        case 'seek':
+          await handleSeekCommand(interaction, musicManager, guildId, guildMember);
+          break;
+        case 'loop':
+          await handleLoopCommand(interaction, musicManager, guildId);
+          break;
+        case 'autoplay':
+          await handleAutoplayCommand(interaction, musicManager, guildId);
           break;
         case 'volume':
-          await handleVolumeCommand(interaction, musicManager, guildId, io);
+          await handleVolumeCommand(interaction, musicManager, guildId, guildMember);
+          break;
+        case 'lyrics':
+          await handleLyricsCommand(interaction, musicManager, lyricsService, guildId);
+          break;
+        case 'filter':
+          await handleFilterCommand(interaction, musicManager, guildId, guildMember);
+          break;
+        case 'settings':
+          await handleSettingsCommand(interaction, musicManager, guildMember);
           break;
         default:
           await interaction.reply({ content: 'Unknown command!', ephemeral: true });
       }
     } catch (error) {
       logger.error(`Error handling command ${commandName}:`, error);
-      if (!interaction.replied) {
-        await interaction.reply({ content: 'An error occurred while executing the command.', ephemeral: true });
-      }
+      const content = 'An error occurred while executing the command.';
+      // The interaction may have expired by now too, and a rejection here would escape the listener
+      const report = interaction.replied
+        ? interaction.followUp({ content, ephemeral: true })
+        : interaction.deferred
+          ? interaction.editReply({ content, embeds: [], components: [] })
+          : interaction.reply({ content, ephemeral: true });
+      await report.catch(replyError => logger.error(`Failed to report error of command ${commandName}:`, replyError));
     }
   });
+
+  client.on('messageCreate', async (message) => {
+    try {
+      await handleAttachmentMessage(message, client, musicManager);
+    } catch (error) {
+      logger.error(`Error handling attachments of message ${message.id}:`, error);
+    }
+  });
+}
+
+export async function offerSessionRestores(client: Client, musicManager: MusicManager) {
+  for (const [guildId, session] of musicManager.getPendingSessions()) {
+    if (!session.textChannelId) continue;
+
+    try {
+      const channel = await client.channels.fetch(session.textChannelId);
+      if (!channel?.isTextBased() || channel.isDMBased()) continue;
+
+      const track = session.queue.currentTrack;
+      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`session-restore:${guildId}`)
+          .setLabel('Resume')
+          .setEmoji('▶️')
+          .setStyle(ButtonStyle.Success),
+        new ButtonBuilder()
+          .setCustomId(`session-dismiss:${guildId}`)
+          .setLabel('Dismiss')
+          .setStyle(ButtonStyle.Secondary)
+      );
+
+      await channel.send({
+        embeds: [{
+          color: 0x0099ff,
+          title: '🔄 I Was Restarted',
+          description: (track ? `I was playing **${track.title}** at ${formatDuration(Math.floor(session.position / 1000))}` : 'I had music queued') +
+                      ` with ${session.queue.tracks.length} more track(s) in the queue.\n` +
+                      `Pick up where we left off in <#${session.voiceChannelId}>?`
+        }],
+        components: [row]
+      });
+    } catch (error) {
+      logger.error(`Failed to offer session restore for guild ${guildId}:`, error);
+    }
+  }
+}
+
+async function handleButtonInteraction(
+  interaction: ButtonInteraction,
+  musicManager: MusicManager
+) {
+  const [action, guildId] = interaction.customId.split(':');
+
+  switch (action) {
+    case 'session-restore': {
+      const session = musicManager.getPendingSessions().get(guildId);
+      if (!session) {
+        await interaction.update({ content: '❌ That session is no longer available.', embeds: [], components: [] });
+        return;
+      }
+      if (!await checkPermission(interaction, musicManager, interaction.member as GuildMember, 'resume the saved queue', [session.queue.currentTrack, ...session.queue.tracks])) return;
+
+      await interaction.deferUpdate();
+      const success = await musicManager.restoreSession(guildId);
+      await interaction.editReply({
+        content: success
+          ? `▶️ Resumed by ${interaction.user.username}.`
+          : '❌ Failed to rejoin the voice channel. Use `/play` to start again.',
+        embeds: [],
+        components: []
+      });
+      break;
+    }
+    case 'session-dismiss': {
+      const session = musicManager.getPendingSessions().get(guildId);
+      if (session && !await checkPermission(interaction, musicManager, interaction.member as GuildMember, 'dismiss the saved queue', [session.queue.currentTrack, ...session.queue.tracks])) return;
+
+      musicManager.dismissSession(guildId);
+      await interaction.update({ content: `Saved queue dismissed by ${interaction.user.username}.`, embeds: [], components: [] });
+      break;
+    }
+    case 'vote-skip':
+      await handleSkipVote(interaction, musicManager, interaction.member as GuildMember);
+      break;
+    case 'np-pause':
+    case 'np-skip':
+    case 'np-stop':
+    case 'np-shuffle':
+    case 'np-loop':
+      await handlePlayerButton(interaction, musicManager, action, interaction.member as GuildMember);
+      break;
+  }
+}
+
+// The now playing controls share the slash commands' rules; the player message itself shows the result
+async function handlePlayerButton(
+  interaction: ButtonInteraction,
+  musicManager: MusicManager,
+  action: string,
+  member: GuildMember
+) {
+  const guildId = member.guild.id;
+  const queue = musicManager.getQueue(guildId);
+  if (!musicManager.getConnection(guildId) || !queue?.currentTrack) {
+    await interaction.reply({ content: '❌ Nothing is currently playing!', ephemeral: true });
+    return;
+  }
+
+  switch (action) {
+    case 'np-pause':
+      if (queue.isPaused) {
+        musicManager.resume(guildId);
+      } else {
+        musicManager.pause(guildId);
+      }
+      break;
+    case 'np-skip':
+      if (!canAffectTracks(member, musicManager.getSettings(guildId).djRoleId, [queue.currentTrack])) {
+        await handleSkipVote(interaction, musicManager, member);
+        return;
+      }
+      musicManager.skip(guildId);
+      break;
+    case 'np-stop':
+      if (!await checkPermission(interaction, musicManager, member, 'stop the music and clear the queue', [queue.currentTrack, ...queue.tracks])) return;
+      musicManager.stop(guildId);
+      break;
+    case 'np-shuffle':
+      if (queue.tracks.length < 2) {
+        await interaction.reply({ content: '❌ Need at least 2 tracks in queue to shuffle!', ephemeral: true });
+        return;
+      }
+      if (!await checkPermission(interaction, musicManager, member, 'shuffle the queue', queue.tracks)) return;
+      musicManager.shuffle(guildId);
+      break;
+    case 'np-loop':
+      musicManager.setLoop(guildId);
+      break;
+  }
+
+  await interaction.deferUpdate();
 }
 
 async function handlePlayCommand(
-  interaction: CommandInteraction,
+  interaction: ChatInputCommandInteraction,
   musicManager: MusicManager,
   member: GuildMember,
-  textChannel: TextChannel,
-  io: SocketServer
+  textChannel: TextChannel
 ) {
   const query = interaction.options.getString('query', true);
+  await playQuery(interaction, musicManager, member, textChannel, query);
+}
+
+async function handlePlayFileCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  member: GuildMember,
+  textChannel: TextChannel
+) {
+  const file = interaction.options.getAttachment('file');
+  const path = interaction.options.getString('path');
+
+  if (!file && !path) {
+    await interaction.reply({ content: '❌ Attach an audio file or pick one from the music library!', ephemeral: true });
+    return;
+  }
+
+  if (file && !isAudioFile(file.name)) {
+    await interaction.reply({ content: '❌ That isn\'t a supported audio file! Try MP3, OGG, FLAC or WAV.', ephemeral: true });
+    return;
+  }
+
+  await playQuery(interaction, musicManager, member, textChannel, file ? file.url : `${LOCAL_PREFIX}${path}`);
+}
+
+async function playQuery(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  member: GuildMember,
+  textChannel: TextChannel,
+  query: string
+) {
+  if (!member.voice.channel) {
+    await interaction.reply({ content: '❌ You need to be in a voice channel to play music!', ephemeral: true });
+    return;
+  }
+
+  if (musicManager.isMissingFFmpeg(query)) {
+    await interaction.reply({ content: FFMPEG_REQUIRED, ephemeral: true });
+    return;
+  }
+
+  const voiceChannel = member.voice.channel as VoiceChannel;
   
+  await interaction.deferReply();
+
+  if (!await connectToVoiceChannel(interaction, musicManager, voiceChannel, textChannel)) {
+    return;
+  }
+
+  // Add track to queue
+  const result = await musicManager.addTrack(interaction.guildId!, query, {
+    id: interaction.user.id,
+    username: interaction.user.username,
+    avatar: interaction.user.displayAvatarURL()
+  });
+
+  if (!result) {
+    await interaction.editReply('❌ Could not find or add the requested track!');
+    return;
+  }
+
+  const queue = musicManager.getQueue(interaction.guildId!);
+  const position = queue?.tracks.length || 0;
+  const [track] = result.tracks;
+
+  if (result.playlistName) {
+    const totalDuration = result.tracks.reduce((total, added) => total + added.duration, 0);
+    await interaction.editReply({
+      embeds: [{
+        color: 0x00ff00,
+        title: '📃 Playlist Added to Queue',
+        description: `**${result.playlistName}**\n` +
+                    `Tracks added: ${result.tracks.length}\n` +
+                    (result.skipped ? `Skipped (unavailable): ${result.skipped}\n` : '') +
+                    `Total duration: ${formatDuration(totalDuration)}\n` +
+                    `Requested by: ${track.requester.username}`,
+        thumbnail: { url: track.thumbnail || '' },
+        footer: { text: `Source: ${TRACK_SOURCES[track.source]}` }
+      }]
+    });
+  } else {
+    await interaction.editReply({ embeds: [createTrackAddedEmbed(track, position)] });
+  }
+}
+
+async function handleAutocomplete(interaction: AutocompleteInteraction, musicManager: MusicManager) {
+  const focused = interaction.options.getFocused(true);
+  if (interaction.commandName !== 'playfile' || focused.name !== 'path') {
+    await interaction.respond([]);
+    return;
+  }
+
+  try {
+    const paths = await musicManager.searchLibrary(focused.value, AUTOCOMPLETE_LIMIT);
+    await interaction.respond(paths
+      .filter(path => path.length <= AUTOCOMPLETE_MAX_LENGTH)
+      .map(path => ({ name: path, value: path })));
+  } catch (error) {
+    logger.error('Failed to search the music library:', error);
+    await interaction.respond([]);
+  }
+}
+
+// Audio files posted in a message that mentions the bot are queued as if they came from /playfile
+async function handleAttachmentMessage(message: Message, client: Client, musicManager: MusicManager) {
+  if (message.author.bot || !message.inGuild() || !client.user || !message.mentions.users.has(client.user.id)) return;
+
+  const files = message.attachments.filter(attachment => isAudioFile(attachment.name));
+  if (!files.size) return;
+
+  if (musicManager.isMissingFFmpeg(files.first()!.url)) {
+    await message.reply(FFMPEG_REQUIRED);
+    return;
+  }
+
+  const voiceChannel = message.member?.voice.channel;
+  if (!voiceChannel) {
+    await message.reply('❌ You need to be in a voice channel to play music!');
+    return;
+  }
+
+  const joinError = await joinVoiceChannel(musicManager, voiceChannel as VoiceChannel, message.channel as TextChannel);
+  if (joinError) {
+    await message.reply(joinError);
+    return;
+  }
+
+  const requester = {
+    id: message.author.id,
+    username: message.author.username,
+    avatar: message.author.displayAvatarURL()
+  };
+  const added: Track[] = [];
+  for (const file of files.values()) {
+    const result = await musicManager.addTrack(message.guildId, file.url, requester);
+    if (result) added.push(...result.tracks);
+  }
+
+  if (!added.length) {
+    await message.reply('❌ Could not play the attached file(s)!');
+    return;
+  }
+
+  const queue = musicManager.getQueue(message.guildId);
+  if (added.length === 1) {
+    await message.reply({ embeds: [createTrackAddedEmbed(added[0], queue?.tracks.length || 0)] });
+    return;
+  }
+
+  await message.reply({
+    embeds: [{
+      color: 0x00ff00,
+      title: '📎 Files Added to Queue',
+      description: added.map(track => `• **${track.title}** (${formatDuration(track.duration)})`).join('\n') +
+                  (added.length < files.size ? `\n\nSkipped (unplayable): ${files.size - added.length}` : ''),
+      footer: { text: `Requested by ${requester.username}` }
+    }]
+  });
+}
+
+async function handleSearchCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  member: GuildMember,
+  textChannel: TextChannel
+) {
+  const query = interaction.options.getString('query', true);
+
   if (!member.voice.channel) {
     await interaction.reply({ content: '❌ You need to be in a voice channel to play music!', ephemeral: true });
     return;
   }
 
-  const voiceChannel = member.voice.channel as VoiceChannel;
-  
-  await interaction.deferReply();
+  await interaction.deferReply();
+
+  let results: SearchResult[];
+  try {
+    results = await musicManager.searchTracks(query, SEARCH_RESULT_LIMIT);
+  } catch (error) {
+    logger.error(`Search for "${query}" failed:`, error);
+    await interaction.editReply('❌ Search failed, please try again later.');
+    return;
+  }
+  if (!results.length) {
+    await interaction.editReply('❌ No results found!');
+    return;
+  }
+
+  const menu = new StringSelectMenuBuilder()
+    .setCustomId('search-select')
+    .setPlaceholder('Pick a track to add to the queue')
+    .addOptions(results.map((result, index) => ({
+      label: truncate(result.title, 100),
+      description: truncate(`${result.channel ? `${result.channel} • ` : ''}${formatDuration(result.duration)}`, 100),
+      value: index.toString()
+    })));
+
+  const message = await interaction.editReply({
+    embeds: [{
+      color: 0x0099ff,
+      title: `🔎 Results for "${truncate(query, 200)}"`,
+      description: results
+        .map((result, index) => `${index + 1}. **${result.title}** (${formatDuration(result.duration)})`)
+        .join('\n')
+    }],
+    components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu)]
+  });
+
+  let selection: StringSelectMenuInteraction;
+  try {
+    selection = await message.awaitMessageComponent({
+      componentType: ComponentType.StringSelect,
+      filter: (i) => i.user.id === interaction.user.id,
+      time: SEARCH_TIMEOUT_MS
+    });
+  } catch {
+    // Nobody picked in time
+    await interaction.editReply({ content: '⌛ Search timed out, nothing was added.', embeds: [], components: [] });
+    return;
+  }
+
+  await selection.deferUpdate();
+  const chosen = results[parseInt(selection.values[0], 10)];
+
+  // The member may have moved since running the command
+  const voiceChannel = member.voice.channel as VoiceChannel | null;
+  if (!voiceChannel) {
+    await interaction.editReply({ content: '❌ You need to be in a voice channel to play music!', embeds: [], components: [] });
+    return;
+  }
+
+  if (!await connectToVoiceChannel(interaction, musicManager, voiceChannel, textChannel)) {
+    return;
+  }
+
+  const result = await musicManager.addTrack(interaction.guildId!, chosen.url, {
+    id: interaction.user.id,
+    username: interaction.user.username,
+    avatar: interaction.user.displayAvatarURL()
+  });
+
+  if (!result) {
+    await interaction.editReply({ content: '❌ Could not add the selected track!', embeds: [], components: [] });
+    return;
+  }
+
+  const queue = musicManager.getQueue(interaction.guildId!);
+  await interaction.editReply({
+    content: '',
+    embeds: [createTrackAddedEmbed(result.tracks[0], queue?.tracks.length || 0)],
+    components: []
+  });
+}
+
+async function handlePlaylistCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  playlistManager: PlaylistManager,
+  member: GuildMember,
+  textChannel: TextChannel
+) {
+  const subcommand = interaction.options.getSubcommand();
+  const name = interaction.options.getString('name') ?? '';
+  const scope = interaction.options.getString('scope') as PlaylistScope | null;
+  const guildId = interaction.guildId!;
+  const owner = { id: interaction.user.id, username: interaction.user.username };
+  const { djRoleId } = musicManager.getSettings(guildId);
+
+  // Without an explicit scope, server playlists win over personal ones of the same name
+  const findPlaylist = (): Playlist | null => scope
+    ? playlistManager.find(scope, scope === 'guild' ? guildId : owner.id, name)
+    : playlistManager.find('guild', guildId, name) ?? playlistManager.find('user', owner.id, name);
+  const targetScope = scope ?? 'guild';
+  const targetOwnerId = targetScope === 'guild' ? guildId : owner.id;
+
+  switch (subcommand) {
+    case 'save': {
+      const queue = musicManager.getQueue(guildId);
+      const tracks = queue ? [...(queue.currentTrack ? [queue.currentTrack] : []), ...queue.tracks] : [];
+      if (!tracks.length) {
+        await interaction.reply({ content: '❌ The queue is empty! Use `/playlist add` to build a playlist by hand.', ephemeral: true });
+        return;
+      }
+
+      const uploads = tracks.filter(track => !canSaveTrack(track)).length;
+      if (uploads === tracks.length) {
+        await interaction.reply({ content: UPLOADS_NOT_SAVED, ephemeral: true });
+        return;
+      }
+
+      const existing = playlistManager.find(targetScope, targetOwnerId, name);
+      if (existing && !canEditPlaylist(member, existing, djRoleId)) {
+        await interaction.reply({ content: `❌ You can't overwrite **${existing.name}**, it belongs to ${existing.createdBy.username}.`, ephemeral: true });
+        return;
+      }
+
+      const playlist = playlistManager.save(targetScope, targetOwnerId, name, tracks, owner);
+      if (!playlist) {
+        await interaction.reply({ content: '❌ Please give the playlist a name!', ephemeral: true });
+        return;
+      }
+
+      await interaction.reply({
+        embeds: [{
+          color: 0x00ff00,
+          title: '💾 Playlist Saved',
+          description: `Saved ${playlist.tracks.length} track(s) to **${playlist.name}** (${formatPlaylistScope(playlist.scope)})` +
+                      (uploads ? `\nLeft out ${uploads} uploaded file(s), whose Discord links expire` : '')
+        }]
+      });
+      break;
+    }
+    case 'load': {
+      const playlist = findPlaylist();
+      if (!playlist) {
+        await interaction.reply({ content: `❌ No playlist called **${name}** found!`, ephemeral: true });
+        return;
+      }
+
+      if (!member.voice.channel) {
+        await interaction.reply({ content: '❌ You need to be in a voice channel to play music!', ephemeral: true });
+        return;
+      }
+
+      await interaction.deferReply();
+      if (!await connectToVoiceChannel(interaction, musicManager, member.voice.channel as VoiceChannel, textChannel)) {
+        return;
+      }
+
+      const result = await musicManager.addPlaylist(guildId, playlist, {
+        id: interaction.user.id,
+        username: interaction.user.username,
+        avatar: interaction.user.displayAvatarURL()
+      });
+
+      if (!result.tracks.length) {
+        await interaction.editReply('❌ None of the tracks in that playlist could be added!');
+        return;
+      }
+
+      const totalDuration = result.tracks.reduce((total, track) => total + track.duration, 0);
+      await interaction.editReply({
+        embeds: [{
+          color: 0x00ff00,
+          title: '📃 Playlist Added to Queue',
+          description: `**${playlist.name}**\n` +
+                      `Tracks added: ${result.tracks.length}\n` +
+                      (result.skipped ? `Skipped (unavailable): ${result.skipped}\n` : '') +
+                      `Total duration: ${formatDuration(totalDuration)}\n` +
+                      `Requested by: ${interaction.user.username}`,
+          thumbnail: { url: result.tracks[0].thumbnail || '' }
+        }]
+      });
+      break;
+    }
+    case 'list': {
+      const scopes: PlaylistScope[] = scope ? [scope] : ['guild', 'user'];
+      const fields = scopes.map(listScope => {
+        const playlists = playlistManager.list(listScope, listScope === 'guild' ? guildId : owner.id);
+        return {
+          name: listScope === 'guild' ? '🏠 Server Playlists' : '👤 Your Playlists',
+          value: playlists.length
+            ? truncate(playlists.map(playlist => `**${playlist.name}** (${playlist.tracks.length} tracks)`).join('\n'), 1024)
+            : 'None yet'
+        };
+      });
+
+      await interaction.reply({
+        embeds: [{
+          color: 0x0099ff,
+          title: '📚 Saved Playlists',
+          fields
+        }],
+        ephemeral: true
+      });
+      break;
+    }
+    case 'delete': {
+      const playlist = findPlaylist();
+      if (!playlist) {
+        await interaction.reply({ content: `❌ No playlist called **${name}** found!`, ephemeral: true });
+        return;
+      }
+
+      if (!canEditPlaylist(member, playlist, djRoleId)) {
+        await interaction.reply({ content: `❌ You can't delete **${playlist.name}**, it belongs to ${playlist.createdBy.username}.`, ephemeral: true });
+        return;
+      }
+
+      playlistManager.delete(playlist.id);
+      await interaction.reply({
+        embeds: [{
+          color: 0xff0000,
+          title: '🗑️ Playlist Deleted',
+          description: `Deleted **${playlist.name}** (${formatPlaylistScope(playlist.scope)})`
+        }]
+      });
+      break;
+    }
+    case 'add': {
+      const query = interaction.options.getString('query', true);
+      const existing = findPlaylist();
+      if (existing && !canEditPlaylist(member, existing, djRoleId)) {
+        await interaction.reply({ content: `❌ You can't edit **${existing.name}**, it belongs to ${existing.createdBy.username}.`, ephemeral: true });
+        return;
+      }
+
+      await interaction.deferReply();
+
+      let tracks: Track[];
+      try {
+        ({ tracks } = await musicManager.resolveTracks(query, { id: owner.id, username: owner.username }));
+      } catch (error) {
+        logger.error('Failed to resolve playlist entry:', error);
+        await interaction.editReply('❌ Could not find the requested track!');
+        return;
+      }
+
+      if (!tracks.some(canSaveTrack)) {
+        await interaction.editReply(UPLOADS_NOT_SAVED);
+        return;
+      }
+
+      const playlist = existing
+        ? playlistManager.addTracks(existing.id, tracks)
+        : playlistManager.save(targetScope, targetOwnerId, name, tracks, owner);
+      if (!playlist) {
+        await interaction.editReply('❌ That playlist is full or has no name!');
+        return;
+      }
+
+      await interaction.editReply({
+        embeds: [{
+          color: 0x00ff00,
+          title: '➕ Added to Playlist',
+          description: (tracks.length === 1 ? `**${tracks[0].title}**` : `${tracks.length} tracks`) +
+                      ` added to **${playlist.name}** (${playlist.tracks.length} tracks)`
+        }]
+      });
+      break;
+    }
+    case 'remove': {
+      const position = interaction.options.getInteger('position', true);
+      const playlist = findPlaylist();
+      if (!playlist) {
+        await interaction.reply({ content: `❌ No playlist called **${name}** found!`, ephemeral: true });
+        return;
+      }
+
+      if (!canEditPlaylist(member, playlist, djRoleId)) {
+        await interaction.reply({ content: `❌ You can't edit **${playlist.name}**, it belongs to ${playlist.createdBy.username}.`, ephemeral: true });
+        return;
+      }
+
+      const removed = playlistManager.removeTrack(playlist.id, position - 1);
+      if (!removed) {
+        await interaction.reply({ content: `❌ Position must be between 1 and ${playlist.tracks.length}!`, ephemeral: true });
+        return;
+      }
+
+      await interaction.reply({
+        embeds: [{
+          color: 0xff0000,
+          title: '➖ Removed from Playlist',
+          description: `Removed **${removed.title}** from **${playlist.name}**`
+        }]
+      });
+      break;
+    }
+  }
+}
+
+// Expects a deferred interaction; replies with the reason when it can't connect
+async function connectToVoiceChannel(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  voiceChannel: VoiceChannel,
+  textChannel: TextChannel
+): Promise<boolean> {
+  const joinError = await joinVoiceChannel(musicManager, voiceChannel, textChannel);
+  if (joinError) {
+    await interaction.editReply({ content: joinError, embeds: [], components: [] });
+    return false;
+  }
+
+  return true;
+}
+
+// Joins the channel unless the bot is already in it; returns what went wrong, if anything
+async function joinVoiceChannel(
+  musicManager: MusicManager,
+  voiceChannel: VoiceChannel,
+  textChannel: TextChannel
+): Promise<string | null> {
+  // Check if bot is already connected to a different channel
+  const existingConnection = musicManager.getConnection(voiceChannel.guild.id);
+  if (existingConnection && existingConnection.voiceChannel.id !== voiceChannel.id) {
+    return '❌ I\'m already connected to a different voice channel!';
+  }
+
+  // Join voice channel if not already connected
+  if (!existingConnection && !await musicManager.joinChannel(voiceChannel, textChannel)) {
+    return '❌ Failed to join the voice channel!';
+  }
+
+  return null;
+}
+
+function createTrackAddedEmbed(track: Track, position: number) {
+  return {
+    color: 0x00ff00,
+    title: '🎵 Track Added to Queue',
+    description: `**${track.title}**\n` +
+                `Duration: ${formatDuration(track.duration)}\n` +
+                `Requested by: ${track.requester.username}\n` +
+                `Position in queue: ${position}`,
+    thumbnail: { url: track.thumbnail || '' },
+    footer: { text: `Source: ${TRACK_SOURCES[track.source]}` }
+  };
+}
+
+async function handleSkipCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  guildId: string,
+  member: GuildMember
+) {
+  const connection = musicManager.getConnection(guildId);
+  if (!connection) {
+    await interaction.reply({ content: '❌ I\'m not connected to a voice channel!', ephemeral: true });
+    return;
+  }
+
+  const queue = musicManager.getQueue(guildId);
+  if (!queue?.currentTrack) {
+    await interaction.reply({ content: '❌ Nothing is currently playing!', ephemeral: true });
+    return;
+  }
+
+  // Everyone else has to convince the rest of the channel
+  const skippedTrack = queue.currentTrack;
+  if (!canAffectTracks(member, musicManager.getSettings(guildId).djRoleId, [skippedTrack])) {
+    await handleSkipVote(interaction, musicManager, member);
+    return;
+  }
+
+  const success = musicManager.skip(guildId);
+
+  if (success) {
+    await interaction.reply({
+      embeds: [{
+        color: 0xffa500,
+        title: '⏭️ Track Skipped',
+        description: `Skipped: **${skippedTrack.title}**`
+      }]
+    });
+  } else {
+    await interaction.reply({ content: '❌ Failed to skip the track!', ephemeral: true });
+  }
+}
+
+// Shared by /skip, the vote button and the player's skip button: all count as a vote from the member
+async function handleSkipVote(
+  interaction: ChatInputCommandInteraction | ButtonInteraction,
+  musicManager: MusicManager,
+  member: GuildMember
+) {
+  const guildId = member.guild.id;
+  const connection = musicManager.getConnection(guildId);
+  if (!connection) {
+    await interaction.reply({ content: '❌ I\'m not connected to a voice channel!', ephemeral: true });
+    return;
+  }
+
+  if (member.voice.channelId !== connection.voiceChannel.id) {
+    await interaction.reply({ content: `❌ Only people listening in <#${connection.voiceChannel.id}> can vote to skip!`, ephemeral: true });
+    return;
+  }
 
-  // Check if bot is already connected to a different channel
-  const existingConnection = musicManager.getConnection(interaction.guildId!);
-  if (existingConnection && existingConnection.voiceChannel.id !== voiceChannel.id) {
-    await interaction.editReply('❌ I\'m already connected to a different voice channel!');
+  const result = musicManager.voteSkip(guildId, member.id);
+  if (!result) {
+    await interaction.reply({ content: '❌ Nothing is currently playing!', ephemeral: true });
     return;
   }
 
-  // Join voice channel if not already connected
-  if (!existingConnection) {
-    const success = await musicManager.joinChannel(voiceChannel, textChannel);
-    if (!success) {
-      await interaction.editReply('❌ Failed to join the voice channel!');
-      return;
+  if (result.passed) {
+    const embed = {
+      color: 0xffa500,
+      title: '⏭️ Track Skipped',
+      description: `The vote passed (${result.votes}/${result.required}), skipped: **${result.track.title}**`
+    };
+
+    // Close the tally before skipping so the track change doesn't report the vote as abandoned
+    if (isVoteButton(interaction)) {
+      skipVoteMessages.delete(guildId);
+      musicManager.skip(guildId);
+      await interaction.update({ embeds: [embed], components: [] });
+    } else {
+      closeSkipVote(guildId, embed);
+      musicManager.skip(guildId);
+      await interaction.reply({ embeds: [embed] });
     }
+    return;
   }
 
-  // Add track to queue
-  const track = await musicManager.addTrack(interaction.guildId!, query, {
-    id: interaction.user.id,
-    username: interaction.user.username,
-    avatar: interaction.user.displayAvatarURL()
-  });
+  const tally = {
+    embeds: [createSkipVoteEmbed(result)],
+    components: [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`vote-skip:${guildId}`)
+          .setLabel('Vote to skip')
+          .setEmoji('⏭️')
+          .setStyle(ButtonStyle.Primary)
+      )
+    ]
+  };
 
-  if (!track) {
-    await interaction.editReply('❌ Could not find or add the requested track!');
+  if (isVoteButton(interaction)) {
+    skipVoteMessages.set(guildId, interaction.message);
+    await interaction.update(tally);
     return;
   }
 
-  const queue = musicManager.getQueue(interaction.guildId!);
-  const position = queue?.tracks.length || 0;
+  const existing = skipVoteMessages.get(guildId);
+  if (existing) {
+    await existing.edit(tally);
+    await interaction.reply({ content: `🗳️ Vote counted (${result.votes}/${result.required}).`, ephemeral: true });
+    return;
+  }
 
-  await interaction.editReply({
-    embeds: [{
-      color: 0x00ff00,
-      title: '🎵 Track Added to Queue',
-      description: `**${track.title}**\n` +
-                  `Duration: ${formatDuration(track.duration)}\n` +
-                  `Requested by: ${track.requester.username}\n` +
-                  `Position in queue: ${position}`,
-      thumbnail: { url: track.thumbnail || '' },
-      footer: { text: `Source: ${track.source.toUpperCase()}` }
-    }]
-  });
+  await interaction.reply(tally);
+  skipVoteMessages.set(guildId, await interaction.fetchReply());
+}
 
-  // Broadcast queue update
-  broadcastQueueUpdate(io, interaction.guildId!, musicManager);
+// Votes cast from the tally's own button update it in place; /skip and the player's skip button reply
+function isVoteButton(interaction: ChatInputCommandInteraction | ButtonInteraction): interaction is ButtonInteraction {
+  return interaction.isButton() && interaction.customId.startsWith('vote-skip:');
 }
 
-async function handleSkipCommand(
-  interaction: CommandInteraction,
+function createSkipVoteEmbed(result: SkipVoteResult) {
+  const filled = Math.min(10, Math.round((result.votes / result.required) * 10));
+  return {
+    color: 0x9932cc,
+    title: '🗳️ Vote to Skip',
+    description: `**${result.track.title}**\n` +
+                `${'🟪'.repeat(filled)}${'⬛'.repeat(10 - filled)} ${result.votes}/${result.required} votes\n` +
+                'Listeners in the voice channel can vote with the button below.',
+    footer: { text: 'The vote resets when the track changes' }
+  };
+}
+
+function closeSkipVote(guildId: string, embed: { color: number; title: string; description: string }) {
+  const message = skipVoteMessages.get(guildId);
+  if (!message) return;
+
+  skipVoteMessages.delete(guildId);
+  message.edit({ embeds: [embed], components: [] })
+    .catch(error => logger.error('Failed to close skip vote:', error));
+}
+
+async function handlePreviousCommand(
+  interaction: ChatInputCommandInteraction,
   musicManager: MusicManager,
   guildId: string,
-  io: SocketServer
+  member: GuildMember
 ) {
-  const connection = musicManager.getConnection(guildId);
-  if (!connection) {
+  if (!musicManager.getConnection(guildId)) {
     await interaction.reply({ content: '❌ I\'m not connected to a voice channel!', ephemeral: true });
     return;
   }
 
   const queue = musicManager.getQueue(guildId);
-  if (!queue?.currentTrack) {
-    await interaction.reply({ content: '❌ Nothing is currently playing!', ephemeral: true });
+  const previousTrack = queue?.history[0];
+  if (!previousTrack) {
+    await interaction.reply({ content: '❌ Nothing has been played yet!', ephemeral: true });
     return;
   }
 
-  const skippedTrack = queue.currentTrack;
-  const success = musicManager.skip(guildId);
+  if (queue.currentTrack && !await checkPermission(interaction, musicManager, member, 'interrupt this track', [queue.currentTrack])) return;
+
+  await interaction.deferReply();
+  const success = await musicManager.previous(guildId);
 
   if (success) {
-    await interaction.reply({
+    await interaction.editReply({
       embeds: [{
-        color: 0xffa500,
-        title: '⏭️ Track Skipped',
-        description: `Skipped: **${skippedTrack.title}**`
+        color: 0x0099ff,
+        title: '⏮️ Playing Previous Track',
+        description: `Now playing: **${previousTrack.title}**`
       }]
     });
-    broadcastQueueUpdate(io, guildId, musicManager);
   } else {
-    await interaction.reply({ content: '❌ Failed to skip the track!', ephemeral: true });
+    await interaction.editReply('❌ Failed to play the previous track!');
   }
 }
 
 async function handlePauseCommand(
-  interaction: CommandInteraction,
+  interaction: ChatInputCommandInteraction,
   musicManager: MusicManager,
-  guildId: string,
-  io: SocketServer
+  guildId: string
 ) {
   const queue = musicManager.getQueue(guildId);
   if (!queue?.isPlaying) {
@@ -185,17 +1050,15 @@ async function handlePauseCommand(
         description: 'Music playback has been paused.'
       }]
     });
-    broadcastQueueUpdate(io, guildId, musicManager);
   } else {
     await interaction.reply({ content: '❌ Failed to pause the music!', ephemeral: true });
   }
 }
 
 async function handleResumeCommand(
-  interaction: CommandInteraction,
+  interaction: ChatInputCommandInteraction,
   musicManager: MusicManager,
-  guildId: string,
-  io: SocketServer
+  guildId: string
 ) {
   const queue = musicManager.getQueue(guildId);
   if (!queue?.isPaused) {
@@ -212,17 +1075,16 @@ async function handleResumeCommand(
         description: 'Music playback has been resumed.'
       }]
     });
-    broadcastQueueUpdate(io, guildId, musicManager);
   } else {
     await interaction.reply({ content: '❌ Failed to resume the music!', ephemeral: true });
   }
 }
 
 async function handleStopCommand(
-  interaction: CommandInteraction,
+  interaction: ChatInputCommandInteraction,
   musicManager: MusicManager,
   guildId: string,
-  io: SocketServer
+  member: GuildMember
 ) {
   const connection = musicManager.getConnection(guildId);
   if (!connection) {
@@ -230,6 +1092,9 @@ async function handleStopCommand(
     return;
   }
 
+  const queue = musicManager.getQueue(guildId);
+  if (!await checkPermission(interaction, musicManager, member, 'stop the music and clear the queue', [queue?.currentTrack, ...(queue?.tracks ?? [])])) return;
+
   const success = musicManager.stop(guildId);
   if (success) {
     await interaction.reply({
@@ -239,14 +1104,13 @@ async function handleStopCommand(
         description: 'Music playback stopped and queue cleared.'
       }]
     });
-    broadcastQueueUpdate(io, guildId, musicManager);
   } else {
     await interaction.reply({ content: '❌ Failed to stop the music!', ephemeral: true });
   }
 }
 
 async function handleQueueCommand(
-  interaction: CommandInteraction,
+  interaction: ChatInputCommandInteraction,
   musicManager: MusicManager,
   guildId: string
 ) {
@@ -256,38 +1120,139 @@ async function handleQueueCommand(
     return;
   }
 
+  // Pages are rebuilt from the live queue on every click, so they stay accurate while music plays
+  await replyWithPages(interaction, (page) => {
+    const current = musicManager.getQueue(guildId);
+    return current && (current.currentTrack || current.tracks.length) ? createQueuePage(current, page) : null;
+  }, '❌ The queue is empty!');
+}
+
+// One page of the queue with the time left until each track starts
+function createQueuePage(queue: Queue, requestedPage: number) {
+  const pageCount = Math.max(1, Math.ceil(queue.tracks.length / QUEUE_PAGE_SIZE));
+  const page = Math.min(Math.max(requestedPage, 0), pageCount - 1);
+
+  // Live streams have no length, so nothing after one can be estimated
+  const current = queue.currentTrack;
+  let untilNext: number | null = current ? (current.duration > 0 ? Math.max(0, current.duration - queue.position) : null) : 0;
+  const startsIn: (number | null)[] = queue.tracks.map(track => {
+    const eta = untilNext;
+    untilNext = untilNext !== null && track.duration > 0 ? untilNext + track.duration : null;
+    return eta;
+  });
+  const remaining = untilNext;
+
   let description = '';
-  
-  if (queue.currentTrack) {
-    description += `**Now Playing:**\n🎵 ${queue.currentTrack.title}\n` +
-                  `Requested by: ${queue.currentTrack.requester.username}\n\n`;
+
+  if (current) {
+    description += `**Now Playing:**\n${current.autoplay ? '📻' : '🎵'} ${current.title}\n` +
+                  `Requested by: ${current.requester.username}\n\n`;
   }
 
   if (queue.tracks.length > 0) {
     description += '**Up Next:**\n';
-    queue.tracks.slice(0, 10).forEach((track, index) => {
-      description += `${index + 1}. ${track.title} (${formatDuration(track.duration)})\n`;
+    const start = page * QUEUE_PAGE_SIZE;
+    queue.tracks.slice(start, start + QUEUE_PAGE_SIZE).forEach((track, offset) => {
+      const index = start + offset;
+      const eta = startsIn[index];
+      description += `${index + 1}. ${track.autoplay ? '📻 ' : ''}${track.title} (${track.duration > 0 ? formatDuration(track.duration) : 'LIVE'})` +
+                    ` • ${eta === null ? 'time unknown' : `in ${formatDuration(eta)}`}\n`;
     });
-    
-    if (queue.tracks.length > 10) {
-      description += `\n...and ${queue.tracks.length - 10} more tracks`;
-    }
   }
 
-  await interaction.reply({
-    embeds: [{
+  return {
+    page,
+    pageCount,
+    embed: {
       color: 0x0099ff,
-      title: '🎵 Music Queue',
+      title: `🎵 Music Queue (page ${page + 1}/${pageCount})`,
       description,
       footer: {
-        text: `${queue.tracks.length} tracks in queue • Volume: ${queue.volume}% • ${queue.shuffle ? 'Shuffle: ON' : 'Shuffle: OFF'}`
+        text: `${queue.tracks.length} tracks in queue • ${remaining === null ? 'Includes a live stream' : `${formatDuration(remaining)} remaining`} • ` +
+              `Volume: ${queue.volume}% • ${queue.shuffle ? 'Shuffle: ON' : 'Shuffle: OFF'} • Loop: ${formatLoopMode(queue.loop)}` +
+              (queue.autoplay ? ' • Autoplay: ON' : '')
       }
-    }]
+    }
+  };
+}
+
+// Replies with the first page and lets the invoker flip through the rest until the buttons go idle.
+// renderPage clamps the page it is asked for and returns null once there is nothing left to show.
+async function replyWithPages(
+  interaction: ChatInputCommandInteraction,
+  renderPage: (page: number) => EmbedPage | null,
+  emptyMessage: string
+) {
+  const first = renderPage(0);
+  if (!first) {
+    if (interaction.deferred) {
+      await interaction.editReply(emptyMessage);
+    } else {
+      await interaction.reply({ content: emptyMessage, ephemeral: true });
+    }
+    return;
+  }
+
+  const view = { embeds: [first.embed], components: createPageButtons(first) };
+  const message = interaction.deferred ? await interaction.editReply(view) : await interaction.reply(view).then(() => interaction.fetchReply());
+  if (first.pageCount === 1) return;
+
+  let page = first.page;
+  const collector = message.createMessageComponentCollector({
+    componentType: ComponentType.Button,
+    idle: PAGE_BUTTON_TIMEOUT_MS
+  });
+
+  // The button's interaction may have expired or been answered already; that must not escape the collector
+  const logFailure = (error: unknown) => logger.error('Failed to answer page button:', error);
+
+  collector.on('collect', (button) => {
+    if (button.user.id !== interaction.user.id) {
+      button.reply({ content: `❌ Only the person who ran \`/${interaction.commandName}\` can turn its pages. Run it yourself to browse.`, ephemeral: true })
+        .catch(logFailure);
+      return;
+    }
+
+    const next = renderPage(page + (button.customId === 'page-next' ? 1 : -1));
+    if (!next) {
+      collector.stop();
+      button.update({ content: emptyMessage, embeds: [], components: [] }).catch(logFailure);
+      return;
+    }
+
+    page = next.page;
+    button.update({ embeds: [next.embed], components: createPageButtons(next) }).catch(logFailure);
   });
+
+  collector.on('end', () => {
+    interaction.editReply({ components: [] })
+      .catch(error => logger.debug(`Failed to expire page buttons: ${error}`));
+  });
+}
+
+function createPageButtons({ page, pageCount }: EmbedPage) {
+  if (pageCount <= 1) return [];
+
+  return [
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId('page-prev')
+        .setEmoji('◀️')
+        .setLabel('Previous')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page === 0),
+      new ButtonBuilder()
+        .setCustomId('page-next')
+        .setEmoji('▶️')
+        .setLabel('Next')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page === pageCount - 1)
+    )
+  ];
 }
 
 async function handleNowPlayingCommand(
-  interaction: CommandInteraction,
+  interaction: ChatInputCommandInteraction,
   musicManager: MusicManager,
   guildId: string
 ) {
@@ -297,26 +1262,16 @@ async function handleNowPlayingCommand(
     return;
   }
 
-  const track = queue.currentTrack;
-  await interaction.reply({
-    embeds: [{
-      color: 0x00ff00,
-      title: '🎵 Now Playing',
-      description: `**${track.title}**\n` +
-                  `Duration: ${formatDuration(track.duration)}\n` +
-                  `Requested by: ${track.requester.username}\n` +
-                  `Status: ${queue.isPlaying ? (queue.isPaused ? '⏸️ Paused' : '▶️ Playing') : '⏹️ Stopped'}`,
-      thumbnail: { url: track.thumbnail || '' },
-      footer: { text: `Source: ${track.source.toUpperCase()} • Volume: ${queue.volume}%` }
-    }]
-  });
+  // Reposting the player brings it back to the bottom of the channel; the old copy is removed
+  await interaction.reply(buildNowPlayingMessage(guildId, queue));
+  adoptNowPlayingMessage(musicManager, guildId, await interaction.fetchReply());
 }
 
 async function handleShuffleCommand(
-  interaction: CommandInteraction,
+  interaction: ChatInputCommandInteraction,
   musicManager: MusicManager,
   guildId: string,
-  io: SocketServer
+  member: GuildMember
 ) {
   const queue = musicManager.getQueue(guildId);
   if (!queue || queue.tracks.length < 2) {
@@ -324,6 +1279,8 @@ async function handleShuffleCommand(
     return;
   }
 
+  if (!await checkPermission(interaction, musicManager, member, 'shuffle the queue', queue.tracks)) return;
+
   const success = musicManager.shuffle(guildId);
   if (success) {
     const newQueue = musicManager.getQueue(guildId);
@@ -334,49 +1291,370 @@ async function handleShuffleCommand(
         description: `Shuffle is now **${newQueue?.shuffle ? 'ON' : 'OFF'}**`
       }]
     });
-    broadcastQueueUpdate(io, guildId, musicManager);
   } else {
     await interaction.reply({ content: '❌ Failed to toggle shuffle!', ephemeral: true });
   }
 }
 
+async function handleMoveCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  guildId: string,
+  member: GuildMember
+) {
+  const from = interaction.options.getInteger('from', true);
+  const to = interaction.options.getInteger('to', true);
+  const queue = musicManager.getQueue(guildId);
+
+  if (!queue || from > queue.tracks.length || to > queue.tracks.length) {
+    await interaction.reply({
+      content: `❌ Positions must be between 1 and ${queue?.tracks.length || 0}!`,
+      ephemeral: true
+    });
+    return;
+  }
+
+  const track = queue.tracks[from - 1];
+  if (!await checkPermission(interaction, musicManager, member, 'move this track', [track])) return;
+
+  const success = musicManager.moveTrack(guildId, from - 1, to - 1);
+  if (success) {
+    await interaction.reply({
+      embeds: [{
+        color: 0x0099ff,
+        title: '↕️ Track Moved',
+        description: `Moved **${track.title}** from position ${from} to ${to}`
+      }]
+    });
+  } else {
+    await interaction.reply({ content: '❌ Failed to move the track!', ephemeral: true });
+  }
+}
+
+async function handleSkipToCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  guildId: string,
+  member: GuildMember
+) {
+  const position = interaction.options.getInteger('position', true);
+  const queue = musicManager.getQueue(guildId);
+
+  if (!queue || position > queue.tracks.length) {
+    await interaction.reply({
+      content: `❌ Position must be between 1 and ${queue?.tracks.length || 0}!`,
+      ephemeral: true
+    });
+    return;
+  }
+
+  const track = queue.tracks[position - 1];
+  const skippedTracks = [queue.currentTrack, ...queue.tracks.slice(0, position - 1)];
+  if (!await checkPermission(interaction, musicManager, member, 'skip these tracks', skippedTracks)) return;
+
+  const success = musicManager.skipTo(guildId, position - 1);
+  if (success) {
+    await interaction.reply({
+      embeds: [{
+        color: 0xffa500,
+        title: '⏭️ Skipped Ahead',
+        description: `Now playing: **${track.title}**` +
+                    (position > 1 ? `\nSkipped ${position - 1} track(s)` : '')
+      }]
+    });
+  } else {
+    await interaction.reply({ content: '❌ Failed to skip to that track!', ephemeral: true });
+  }
+}
+
+async function handleSeekCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  guildId: string,
+  member: GuildMember
+) {
+  const queue = musicManager.getQueue(guildId);
+  if (!queue?.currentTrack) {
+    await interaction.reply({ content: '❌ Nothing is currently playing!', ephemeral: true });
+    return;
+  }
+
+  const position = parseTimestamp(interaction.options.getString('timestamp', true));
+  if (position === null) {
+    await interaction.reply({ content: '❌ Invalid timestamp! Use a format like `1:30` or `90`.', ephemeral: true });
+    return;
+  }
+
+  if (queue.currentTrack.duration > 0 && position >= queue.currentTrack.duration) {
+    await interaction.reply({
+      content: `❌ This track is only ${formatDuration(queue.currentTrack.duration)} long!`,
+      ephemeral: true
+    });
+    return;
+  }
+
+  if (!await checkPermission(interaction, musicManager, member, 'seek in this track', [queue.currentTrack])) return;
+
+  await interaction.deferReply();
+
+  const success = await musicManager.seek(guildId, position);
+  if (success) {
+    await interaction.editReply({
+      embeds: [{
+        color: 0x0099ff,
+        title: '⏩ Seeked',
+        description: `Jumped to **${formatDuration(position)}** in **${queue.currentTrack.title}**`
+      }]
+    });
+  } else {
+    await interaction.editReply('❌ Failed to seek in the current track!');
+  }
+}
+
+async function handleLoopCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  guildId: string
+) {
+  const mode = interaction.options.getString('mode') as LoopMode | null;
+
+  const success = musicManager.setLoop(guildId, mode ?? undefined);
+  if (success) {
+    const queue = musicManager.getQueue(guildId);
+    await interaction.reply({
+      embeds: [{
+        color: 0x9932cc,
+        title: '🔁 Loop Mode Changed',
+        description: `Loop is now **${formatLoopMode(queue?.loop ?? 'none')}**`
+      }]
+    });
+  } else {
+    await interaction.reply({ content: '❌ Nothing is playing in this server!', ephemeral: true });
+  }
+}
+
+async function handleAutoplayCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  guildId: string
+) {
+  const enabled = interaction.options.getBoolean('enabled');
+
+  const success = musicManager.setAutoplay(guildId, enabled ?? undefined);
+  if (success) {
+    const queue = musicManager.getQueue(guildId);
+    await interaction.reply({
+      embeds: [{
+        color: 0x9932cc,
+        title: '📻 Autoplay Changed',
+        description: queue?.autoplay
+          ? 'Autoplay is now **ON**. When the queue runs out I\'ll keep playing related songs, until someone requests one.'
+          : 'Autoplay is now **OFF**.'
+      }]
+    });
+  } else {
+    await interaction.reply({ content: '❌ I\'m not connected to a voice channel!', ephemeral: true });
+  }
+}
+
 async function handleVolumeCommand(
-  interaction: CommandInteraction,
+  interaction: ChatInputCommandInteraction,
   musicManager: MusicManager,
   guildId: string,
-  io: SocketServer
+  member: GuildMember
 ) {
-  const volume = interaction.options.getNumber('level', true);
+  const volume = interaction.options.getInteger('level', true);
+  if (!await checkPermission(interaction, musicManager, member, 'change the volume', [])) return;
   
   const success = musicManager.setVolume(guildId, volume);
   if (success) {
+    const { maxVolume } = musicManager.getSettings(guildId);
+    const applied = musicManager.getQueue(guildId)?.volume ?? volume;
     await interaction.reply({
       embeds: [{
         color: 0x00ffff,
         title: '🔊 Volume Changed',
-        description: `Volume set to **${volume}%**`
+        description: `Volume set to **${applied}%**` +
+                    (applied < volume ? `\nThis server's maximum volume is ${maxVolume}%.` : '')
       }]
     });
-    broadcastQueueUpdate(io, guildId, musicManager);
   } else {
     await interaction.reply({ content: '❌ Failed to set volume!', ephemeral: true });
   }
 }
 
-function broadcastQueueUpdate(io: SocketServer, guildId: string, musicManager: MusicManager) {
+async function handleLyricsCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  lyricsService: LyricsService,
+  guildId: string
+) {
+  const query = interaction.options.getString('query');
+  const track = query ? null : musicManager.getQueue(guildId)?.currentTrack;
+
+  if (!query && !track) {
+    await interaction.reply({ content: '❌ Nothing is currently playing! Give me a song to look up.', ephemeral: true });
+    return;
+  }
+
+  await interaction.deferReply();
+  const lyrics = await lyricsService.find(query ?? track!.title, track?.duration);
+  if (!lyrics?.plain) {
+    await interaction.editReply(`❌ No lyrics found for **${truncate(query ?? track!.title, 200)}**.`);
+    return;
+  }
+
+  const pages = splitLyrics(lyrics.plain, LYRICS_PAGE_LENGTH);
+  await replyWithPages(interaction, (requestedPage) => {
+    const page = Math.min(Math.max(requestedPage, 0), pages.length - 1);
+    return {
+      page,
+      pageCount: pages.length,
+      embed: {
+        color: 0xff69b4,
+        title: `📝 ${truncate(lyrics.artist ? `${lyrics.artist} - ${lyrics.title}` : lyrics.title, 250)}`,
+        description: pages[page],
+        footer: { text: `Lyrics from ${lyrics.source}${pages.length > 1 ? ` • Page ${page + 1}/${pages.length}` : ''}` }
+      }
+    };
+  }, '❌ No lyrics found.');
+}
+
+async function handleFilterCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  guildId: string,
+  member: GuildMember
+) {
+  const subcommand = interaction.options.getSubcommand();
   const queue = musicManager.getQueue(guildId);
-  if (queue) {
-    io.emit('queue-update', guildId, queue);
+  if (!queue) {
+    await interaction.reply({ content: '❌ I\'m not connected to a voice channel!', ephemeral: true });
+    return;
+  }
+
+  if (subcommand === 'status') {
+    await interaction.reply({ embeds: [createFiltersEmbed('🎛️ Audio Filters', queue.filters)], ephemeral: true });
+    return;
+  }
+
+  if (!await checkPermission(interaction, musicManager, member, 'change the audio filters', [])) return;
+
+  const filters = { presets: [...queue.filters.presets], equalizer: [...queue.filters.equalizer] };
+  switch (subcommand) {
+    case 'preset': {
+      const preset = interaction.options.getString('name', true) as FilterPreset;
+      filters.presets = filters.presets.includes(preset)
+        ? filters.presets.filter(active => active !== preset)
+        : enablePreset(filters.presets, preset);
+      break;
+    }
+    case 'eq': {
+      const band = EQ_BANDS.indexOf(interaction.options.getInteger('band', true));
+      if (band === -1) {
+        await interaction.reply({ content: '❌ Unknown equalizer band!', ephemeral: true });
+        return;
+      }
+      filters.equalizer[band] = interaction.options.getInteger('gain', true);
+      break;
+    }
+    case 'clear':
+      Object.assign(filters, createDefaultFilters());
+      break;
+  }
+
+  // Re-applying restarts the stream at the current position, which can take a moment
+  await interaction.deferReply();
+  const success = await musicManager.setFilters(guildId, filters);
+
+  if (success) {
+    await interaction.editReply({ embeds: [createFiltersEmbed('🎛️ Filters Updated', musicManager.getQueue(guildId)?.filters ?? filters)] });
+  } else {
+    await interaction.editReply('❌ Failed to apply the filters! Audio effects need FFmpeg installed on the bot\'s host.');
   }
 }
 
-function formatDuration(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = seconds % 60;
-  
-  if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+function createFiltersEmbed(title: string, filters: AudioFilters) {
+  const presets = FILTER_PRESETS.filter(preset => filters.presets.includes(preset.id));
+  const bands = EQ_BANDS
+    .map((frequency, index) => ({ frequency, gain: filters.equalizer[index] }))
+    .filter(({ gain }) => gain !== 0);
+
+  return {
+    color: 0x9932cc,
+    title,
+    description: hasActiveFilters(filters)
+      ? `**Effects:** ${presets.length ? presets.map(preset => preset.name).join(', ') : 'None'}\n` +
+        `**Equalizer:** ${bands.length ? bands.map(({ frequency, gain }) => `${formatFrequency(frequency)} ${gain > 0 ? '+' : ''}${gain} dB`).join(', ') : 'Flat'}`
+      : 'No filters are active.'
+  };
+}
+
+async function handleSettingsCommand(
+  interaction: ChatInputCommandInteraction,
+  musicManager: MusicManager,
+  member: GuildMember
+) {
+  if (!member.permissions.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.reply({ content: '❌ You need the Manage Server permission to change settings!', ephemeral: true });
+    return;
   }
-  return `${minutes}:${secs.toString().padStart(2, '0')}`;
-}
\ No newline at end of file
+
+  const guildId = interaction.guildId!;
+  const defaultVolume = interaction.options.getInteger('default_volume');
+  const maxVolume = interaction.options.getInteger('max_volume');
+  const djRole = interaction.options.getRole('dj_role');
+  const voteSkipPercent = interaction.options.getInteger('vote_skip_percent');
+
+  const settings = musicManager.updateSettings(guildId, {
+    ...(defaultVolume !== null && { defaultVolume }),
+    ...(maxVolume !== null && { maxVolume }),
+    ...(djRole !== null && { djRoleId: djRole.id }),
+    ...(voteSkipPercent !== null && { voteSkipPercent })
+  });
+
+  await interaction.reply({
+    embeds: [{
+      color: 0x0099ff,
+      title: '⚙️ Server Settings',
+      description: `Default volume: **${settings.defaultVolume}%**\n` +
+                  `Maximum volume: **${settings.maxVolume}%**\n` +
+                  `DJ role: ${describeDJRole(guildId, settings.djRoleId)}\n` +
+                  `Votes needed to skip: **${settings.voteSkipPercent}%** of listeners`
+    }],
+    ephemeral: true
+  });
+}
+
+// Replies with an ephemeral denial unless the member is a DJ or requested every affected track
+async function checkPermission(
+  interaction: ChatInputCommandInteraction | ButtonInteraction,
+  musicManager: MusicManager,
+  member: GuildMember,
+  action: string,
+  affectedTracks: (Track | null | undefined)[]
+): Promise<boolean> {
+  const { djRoleId } = musicManager.getSettings(member.guild.id);
+  if (canAffectTracks(member, djRoleId, affectedTracks)) return true;
+
+  const trackCount = affectedTracks.filter(Boolean).length;
+  await interaction.reply({
+    content: `🔒 You need ${describeDJRole(member.guild.id, djRoleId)} or the Manage Server permission to ${action}` +
+            (trackCount === 0 ? '.' : trackCount === 1 ? ', unless you requested it yourself.' : ', unless you requested all of them yourself.'),
+    ephemeral: true
+  });
+  return false;
+}
+
+function describeDJRole(guildId: string, djRoleId?: string): string {
+  if (!djRoleId) return `a role named **${process.env.DJ_ROLE_NAME || 'DJ'}**`;
+  return djRoleId === guildId ? '@everyone' : `<@&${djRoleId}>`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function formatPlaylistScope(scope: PlaylistScope): string {
+  return scope === 'guild' ? 'server playlist' : 'personal playlist';
+}
@@ -0,0 +1,228 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  Message
+} from 'discord.js';
+import { MusicManager } from '../music/MusicManager.js';
+import { logger } from '../utils/logger.js';
+import { Queue } from '../../shared/types.js';
+import { formatDuration, formatLoopMode } from '../../shared/format.js';
+
+// Discord allows roughly five edits per channel every five seconds; stay well under that
+const PROGRESS_REFRESH_MS = 15_000;
+const MIN_EDIT_INTERVAL_MS = 2_000;
+const PROGRESS_BAR_LENGTH = 20;
+
+interface NowPlayingState {
+  message?: Message;
+  lastEdit: number;
+  // A single pending edit collects every change made while we wait out the edit interval
+  updateTimer?: NodeJS.Timeout;
+  refreshTimer?: NodeJS.Timeout;
+  editing: boolean;
+  dirty: boolean;
+}
+
+// The persistent player message of each guild, kept in the connection's text channel
+const nowPlayingMessages = new Map<string, NowPlayingState>();
+
+export function setupNowPlayingMessages(musicManager: MusicManager) {
+  musicManager.on('trackStart', (guildId) => requestUpdate(musicManager, guildId));
+  musicManager.on('queueChanged', (guildId) => requestUpdate(musicManager, guildId));
+  musicManager.on('connectionChanged', (guildId, connected) => {
+    if (!connected) closeNowPlaying(guildId);
+  });
+}
+
+// Makes a freshly sent message (e.g. the /nowplaying reply) the player, retiring the old one
+export function adoptNowPlayingMessage(musicManager: MusicManager, guildId: string, message: Message) {
+  const state = getState(guildId);
+  const previous = state.message;
+
+  state.message = message;
+  state.lastEdit = Date.now();
+  if (previous && previous.id !== message.id) {
+    previous.delete().catch(error => logger.debug(`Failed to delete old now playing message: ${error}`));
+  }
+
+  syncRefreshTimer(musicManager, guildId);
+}
+
+export function buildNowPlayingMessage(guildId: string, queue: Queue) {
+  const track = queue.currentTrack;
+  if (!track) {
+    return {
+      embeds: [{
+        color: 0x808080,
+        title: '⏹️ Nothing Playing',
+        description: 'The queue is empty. Use `/play` to add more music.'
+      }],
+      components: [createControls(guildId, queue, true)]
+    };
+  }
+
+  const nextTrack = queue.tracks[0];
+  // Library files have no web page to link to
+  const title = /^https?:\/\//.test(track.url) ? `[${track.title}](${track.url})` : track.title;
+  return {
+    embeds: [{
+      color: queue.isPaused ? 0xff9900 : 0x00ff00,
+      title: queue.isPaused ? '⏸️ Paused' : '🎵 Now Playing',
+      description: `**${title}**\n\n` +
+                  `${createProgressBar(queue.position, track.duration)}\n` +
+                  `\`${formatDuration(queue.position)} / ${track.duration > 0 ? formatDuration(track.duration) : 'LIVE'}\``,
+      thumbnail: track.thumbnail ? { url: track.thumbnail } : undefined,
+      fields: [
+        { name: 'Requested by', value: track.autoplay ? '📻 Autoplay' : track.requester.username, inline: true },
+        { name: 'Up Next', value: nextTrack ? nextTrack.title : queue.autoplay ? '📻 A related song' : 'Nothing queued', inline: true }
+      ],
+      footer: {
+        text: `Volume: ${queue.volume}% • Loop: ${formatLoopMode(queue.loop)} • Shuffle: ${queue.shuffle ? 'ON' : 'OFF'} • ${queue.tracks.length} tracks in queue${queue.autoplay ? ' • Autoplay: ON' : ''}`
+      }
+    }],
+    components: [createControls(guildId, queue, false)]
+  };
+}
+
+function createControls(guildId: string, queue: Queue, disabled: boolean) {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`np-pause:${guildId}`)
+      .setEmoji(queue.isPaused ? '▶️' : '⏸️')
+      .setLabel(queue.isPaused ? 'Resume' : 'Pause')
+      .setStyle(queue.isPaused ? ButtonStyle.Success : ButtonStyle.Secondary)
+      .setDisabled(disabled),
+    new ButtonBuilder()
+      .setCustomId(`np-skip:${guildId}`)
+      .setEmoji('⏭️')
+      .setLabel('Skip')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(disabled),
+    new ButtonBuilder()
+      .setCustomId(`np-stop:${guildId}`)
+      .setEmoji('⏹️')
+      .setLabel('Stop')
+      .setStyle(ButtonStyle.Danger)
+      .setDisabled(disabled),
+    new ButtonBuilder()
+      .setCustomId(`np-shuffle:${guildId}`)
+      .setEmoji('🔀')
+      .setLabel('Shuffle')
+      .setStyle(queue.shuffle ? ButtonStyle.Primary : ButtonStyle.Secondary)
+      .setDisabled(disabled),
+    new ButtonBuilder()
+      .setCustomId(`np-loop:${guildId}`)
+      .setEmoji(queue.loop === 'track' ? '🔂' : '🔁')
+      .setLabel('Loop')
+      .setStyle(queue.loop === 'none' ? ButtonStyle.Secondary : ButtonStyle.Primary)
+      .setDisabled(disabled)
+  );
+}
+
+function createProgressBar(position: number, duration: number): string {
+  if (duration <= 0) return '🔴 LIVE';
+
+  const index = Math.min(PROGRESS_BAR_LENGTH - 1, Math.floor((position / duration) * PROGRESS_BAR_LENGTH));
+  return `${'▬'.repeat(index)}🔘${'▬'.repeat(PROGRESS_BAR_LENGTH - index - 1)}`;
+}
+
+function getState(guildId: string): NowPlayingState {
+  let state = nowPlayingMessages.get(guildId);
+  if (!state) {
+    state = { lastEdit: 0, editing: false, dirty: false };
+    nowPlayingMessages.set(guildId, state);
+  }
+  return state;
+}
+
+function requestUpdate(musicManager: MusicManager, guildId: string) {
+  const state = getState(guildId);
+  if (state.updateTimer) return;
+
+  const wait = Math.max(0, state.lastEdit + MIN_EDIT_INTERVAL_MS - Date.now());
+  state.updateTimer = setTimeout(() => {
+    state.updateTimer = undefined;
+    void render(musicManager, guildId);
+  }, wait);
+}
+
+async function render(musicManager: MusicManager, guildId: string) {
+  const state = nowPlayingMessages.get(guildId);
+  const connection = musicManager.getConnection(guildId);
+  const queue = musicManager.getQueue(guildId);
+  if (!state || !connection?.textChannel || !queue) return;
+
+  // Never run two edits at once; whatever changed meanwhile is picked up right after
+  if (state.editing) {
+    state.dirty = true;
+    return;
+  }
+
+  state.editing = true;
+  state.lastEdit = Date.now();
+  const payload = buildNowPlayingMessage(guildId, queue);
+
+  try {
+    if (state.message) {
+      try {
+        await state.message.edit(payload);
+      } catch (error) {
+        // Most likely deleted by someone; post a fresh one instead
+        logger.debug(`Now playing message for guild ${guildId} could not be edited: ${error}`);
+        state.message = undefined;
+      }
+    }
+
+    if (!state.message && queue.currentTrack) {
+      state.message = await connection.textChannel.send(payload);
+    }
+  } catch (error) {
+    logger.error(`Failed to update now playing message for guild ${guildId}:`, error);
+  } finally {
+    state.editing = false;
+  }
+
+  // The guild may have disconnected while the edit was in flight
+  if (nowPlayingMessages.get(guildId) !== state) return;
+
+  syncRefreshTimer(musicManager, guildId);
+  if (state.dirty) {
+    state.dirty = false;
+    requestUpdate(musicManager, guildId);
+  }
+}
+
+// The progress bar only moves while something is actually playing
+function syncRefreshTimer(musicManager: MusicManager, guildId: string) {
+  const state = nowPlayingMessages.get(guildId);
+  if (!state) return;
+
+  const queue = musicManager.getQueue(guildId);
+  const shouldRefresh = !!state.message && !!queue?.currentTrack && queue.isPlaying && !queue.isPaused;
+
+  if (shouldRefresh && !state.refreshTimer) {
+    state.refreshTimer = setInterval(() => requestUpdate(musicManager, guildId), PROGRESS_REFRESH_MS);
+  } else if (!shouldRefresh && state.refreshTimer) {
+    clearInterval(state.refreshTimer);
+    state.refreshTimer = undefined;
+  }
+}
+
+function closeNowPlaying(guildId: string) {
+  const state = nowPlayingMessages.get(guildId);
+  if (!state) return;
+
+  clearTimeout(state.updateTimer);
+  clearInterval(state.refreshTimer);
+  nowPlayingMessages.delete(guildId);
+
+  state.message?.edit({
+    embeds: [{
+      color: 0x808080,
+      title: '👋 Disconnected',
+      description: 'Use `/play` to start the music again.'
+    }],
+    components: []
+  }).catch(error => logger.debug(`Failed to close now playing message: ${error}`));
+}
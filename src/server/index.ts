@@ -1,5 +1,5 @@
 import 'dotenv/config';
-import { Client, GatewayIntentBits, Collection, REST, Routes } from 'discord.js';
+import { Client, GatewayIntentBits, Collection, REST, Routes, PermissionFlagsBits } from 'discord.js';
 import { createServer } from 'http';
 import express from 'express';
 import { Server as SocketServer } from 'socket.io';
@@ -12,9 +12,16 @@ import { fileURLToPath } from 'url';
 
 import { logger } from './utils/logger.js';
 import { MusicManager } from './music/MusicManager.js';
-import { setupCommands } from './commands/index.js';
+import { PlaylistManager } from './music/PlaylistManager.js';
+import { LyricsService, createLyricsService } from './lyrics/LyricsService.js';
+import { setupCommands, offerSessionRestores } from './commands/index.js';
 import { setupSocketHandlers } from './socket/handlers.js';
+import { setupMusicBridge, setupPlaylistBridge } from './socket/bridge.js';
+import { getCoverArtDirectory } from './music/sources/coverArt.js';
+import { createSessionMiddleware, setupAuthRoutes, requireLogin, getSession } from './auth/oauth.js';
 import { BotStats, ServerInfo } from '../shared/types.js';
+import { createDefaultFilters, EQ_BANDS, EQ_MAX_GAIN, FILTER_PRESETS } from '../shared/filters.js';
+import { formatFrequency } from '../shared/format.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -22,10 +29,13 @@ const __dirname = path.dirname(__filename);
 class DiscordMusicBot {
   public client: Client;
   public musicManager: MusicManager;
+  public playlistManager: PlaylistManager;
+  public lyricsService: LyricsService;
   public app: express.Application;
   public server: any;
   public io: SocketServer;
   public startTime: number;
+  private sessionMiddleware = createSessionMiddleware();
 
   constructor() {
     this.startTime = Date.now();
@@ -35,13 +45,15 @@ class DiscordMusicBot {
       intents: [
         GatewayIntentBits.Guilds,
         GatewayIntentBits.GuildVoiceStates,
+        // Enough to see attachments on messages that mention the bot, without the privileged Message Content intent
         GatewayIntentBits.GuildMessages,
-        GatewayIntentBits.MessageContent,
       ],
     });
 
     // Initialize music manager
     this.musicManager = new MusicManager(this.client);
+    this.playlistManager = new PlaylistManager();
+    this.lyricsService = createLyricsService();
 
     // Initialize Express app
     this.app = express();
@@ -53,21 +65,29 @@ class DiscordMusicBot {
     this.io = new SocketServer(this.server, {
       cors: {
         origin: process.env.NODE_ENV === 'production' ? false : ["http://localhost:5173"],
-        methods: ["GET", "POST"]
+        methods: ["GET", "POST"],
+        credentials: true
       }
     });
+    this.io.engine.use(this.sessionMiddleware);
 
     this.setupDiscordEvents();
     this.setupSocketEvents();
   }
 
   private setupMiddleware() {
+    // Railway terminates TLS at its proxy; trust it so secure session cookies work
+    if (process.env.NODE_ENV === 'production') {
+      this.app.set('trust proxy', 1);
+    }
+
     this.app.use(helmet({
       contentSecurityPolicy: process.env.NODE_ENV === 'production' ? undefined : false
     }));
     
     this.app.use(cors({
-      origin: process.env.NODE_ENV === 'production' ? false : ["http://localhost:5173"]
+      origin: process.env.NODE_ENV === 'production' ? false : ["http://localhost:5173"],
+      credentials: true
     }));
 
     const limiter = rateLimit({
@@ -77,6 +97,7 @@ class DiscordMusicBot {
     this.app.use('/api', limiter);
 
     this.app.use(express.json());
+    this.app.use(this.sessionMiddleware);
     this.app.use(express.static(path.join(__dirname, '../../dist')));
   }
 
@@ -102,6 +123,16 @@ class DiscordMusicBot {
       });
     });
 
+    // Discord OAuth2 login for the dashboard
+    setupAuthRoutes(this.app, this.client);
+
+    // Artwork embedded in audio files; Discord fetches these for embed thumbnails too
+    this.app.use('/covers', express.static(getCoverArtDirectory(), {
+      immutable: true,
+      maxAge: '30d',
+      setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin')
+    }));
+
     // API routes
     this.app.get('/api/stats', (req, res) => {
       const stats: BotStats = {
@@ -114,34 +145,8 @@ class DiscordMusicBot {
       res.json(stats);
     });
 
-    this.app.get('/api/servers', (req, res) => {
-      const servers: ServerInfo[] = this.client.guilds.cache.map(guild => {
-        const connection = this.musicManager.getConnection(guild.id);
-        const queue = this.musicManager.getQueue(guild.id);
-        
-        return {
-          id: guild.id,
-          name: guild.name,
-          icon: guild.iconURL() ?? undefined,
-          memberCount: guild.memberCount,
-          isConnected: !!connection,
-          voiceChannel: connection ? {
-            id: connection.voiceChannel.id,
-            name: connection.voiceChannel.name,
-            memberCount: connection.voiceChannel.members.size
-          } : undefined,
-          queue: queue || {
-            tracks: [],
-            currentTrack: null,
-            isPlaying: false,
-            isPaused: false,
-            volume: 100,
-            loop: 'none',
-            shuffle: false
-          }
-        };
-      });
-      res.json(servers);
+    this.app.get('/api/servers', requireLogin, (req, res) => {
+      res.json(this.getServersInfo(getSession(req).guildIds ?? []));
     });
 
     // Serve React app for all other routes
@@ -157,8 +162,15 @@ class DiscordMusicBot {
       // Register slash commands
       await this.registerCommands();
       
+      // Restore settings and queues saved before the last shutdown
+      await this.musicManager.loadState();
+      await this.playlistManager.load();
+      
       // Set up command handlers
-      setupCommands(this.client, this.musicManager, this.io);
+      setupCommands(this.client, this.musicManager, this.playlistManager, this.lyricsService);
+      
+      // Offer to rejoin voice channels that were playing before the restart
+      await offerSessionRestores(this.client, this.musicManager);
       
       // Start broadcasting stats
       this.startStatsInterval();
@@ -181,7 +193,9 @@ class DiscordMusicBot {
   }
 
   private setupSocketEvents() {
-    setupSocketHandlers(this.io, this.musicManager);
+    setupSocketHandlers(this.io, this.musicManager, this.client, this.playlistManager, this.lyricsService);
+    setupMusicBridge(this.io, this.musicManager, () => this.broadcastServersUpdate());
+    setupPlaylistBridge(this.io, this.playlistManager);
   }
 
   private async registerCommands() {
@@ -190,13 +204,59 @@ class DiscordMusicBot {
       process.exit(1);
     }
 
+    const playlistNameOption = {
+      name: 'name',
+      description: 'Playlist name',
+      type: 3, // STRING
+      required: true
+    };
+    const playlistScopeOption = {
+      name: 'scope',
+      description: 'Server-wide or personal playlist',
+      type: 3, // STRING
+      required: false,
+      choices: [
+        { name: 'Server', value: 'guild' },
+        { name: 'Personal', value: 'user' }
+      ]
+    };
+
     const commands = [
       {
         name: 'play',
-        description: 'Play a song from YouTube or Spotify',
+        description: 'Play a song from YouTube, Spotify, SoundCloud, a direct link or the music library',
+        options: [{
+          name: 'query',
+          description: 'Song name, YouTube/Spotify/SoundCloud/audio file link, or local:<path> from the music library',
+          type: 3, // STRING
+          required: true
+        }]
+      },
+      {
+        name: 'playfile',
+        description: 'Play an uploaded audio file or a file from the music library',
+        options: [
+          {
+            name: 'file',
+            description: 'MP3, OGG, FLAC or WAV file to play',
+            type: 11, // ATTACHMENT
+            required: false
+          },
+          {
+            name: 'path',
+            description: 'File or folder in the music library',
+            type: 3, // STRING
+            required: false,
+            autocomplete: true
+          }
+        ]
+      },
+      {
+        name: 'search',
+        description: 'Search YouTube and pick which result to play',
         options: [{
           name: 'query',
-          description: 'Song name, URL, or search query',
+          description: 'What to search for',
           type: 3, // STRING
           required: true
         }]
@@ -205,6 +265,71 @@ class DiscordMusicBot {
         name: 'skip',
         description: 'Skip the current song'
       },
+      {
+        name: 'playlist',
+        description: 'Save, load and edit playlists',
+        options: [
+          {
+            name: 'save',
+            description: 'Save the current queue as a playlist',
+            type: 1, // SUB_COMMAND
+            options: [playlistNameOption, playlistScopeOption]
+          },
+          {
+            name: 'load',
+            description: 'Add a saved playlist to the queue',
+            type: 1, // SUB_COMMAND
+            options: [playlistNameOption, playlistScopeOption]
+          },
+          {
+            name: 'list',
+            description: 'Show saved playlists',
+            type: 1, // SUB_COMMAND
+            options: [playlistScopeOption]
+          },
+          {
+            name: 'delete',
+            description: 'Delete a saved playlist',
+            type: 1, // SUB_COMMAND
+            options: [playlistNameOption, playlistScopeOption]
+          },
+          {
+            name: 'add',
+            description: 'Add a song to a playlist, creating it if needed',
+            type: 1, // SUB_COMMAND
+            options: [
+              playlistNameOption,
+              {
+                name: 'query',
+                description: 'Song name, YouTube/Spotify/SoundCloud/audio file link, or local:<path>',
+                type: 3, // STRING
+                required: true
+              },
+              playlistScopeOption
+            ]
+          },
+          {
+            name: 'remove',
+            description: 'Remove a song from a playlist',
+            type: 1, // SUB_COMMAND
+            options: [
+              playlistNameOption,
+              {
+                name: 'position',
+                description: 'Position of the song in the playlist',
+                type: 4, // INTEGER
+                required: true,
+                min_value: 1
+              },
+              playlistScopeOption
+            ]
+          }
+        ]
+      },
+      {
+        name: 'previous',
+        description: 'Play the previous track again'
+      },
       {
         name: 'pause',
         description: 'Pause the current song'
@@ -223,12 +348,78 @@ class DiscordMusicBot {
       },
       {
         name: 'nowplaying',
-        description: 'Show currently playing song'
+        description: 'Show the now playing player with controls'
       },
       {
         name: 'shuffle',
         description: 'Toggle shuffle mode'
       },
+      {
+        name: 'move',
+        description: 'Move a song to a different position in the queue',
+        options: [
+          {
+            name: 'from',
+            description: 'Current position of the song',
+            type: 4, // INTEGER
+            required: true,
+            min_value: 1
+          },
+          {
+            name: 'to',
+            description: 'New position for the song',
+            type: 4, // INTEGER
+            required: true,
+            min_value: 1
+          }
+        ]
+      },
+      {
+        name: 'skipto',
+        description: 'Skip straight to a song in the queue',
+        options: [{
+          name: 'position',
+          description: 'Position of the song in the queue',
+          type: 4, // INTEGER
+          required: true,
+          min_value: 1
+        }]
+      },
+      {
+        name: 'seek',
+        description: 'Jump to a position in the current song',
+        options: [{
+          name: 'timestamp',
+          description: 'Position to jump to, e.g. 1:30 or 90',
+          type: 3, // STRING
+          required: true
+        }]
+      },
+      {
+        name: 'loop',
+        description: 'Set or cycle the loop mode',
+        options: [{
+          name: 'mode',
+          description: 'Loop mode (cycles through modes if omitted)',
+          type: 3, // STRING
+          required: false,
+          choices: [
+            { name: 'Off', value: 'none' },
+            { name: 'Current track', value: 'track' },
+            { name: 'Queue', value: 'queue' }
+          ]
+        }]
+      },
+      {
+        name: 'autoplay',
+        description: 'Keep playing related songs when the queue runs out',
+        options: [{
+          name: 'enabled',
+          description: 'Turn autoplay on or off (toggles if omitted)',
+          type: 5, // BOOLEAN
+          required: false
+        }]
+      },
       {
         name: 'volume',
         description: 'Set the volume (0-100)',
@@ -240,6 +431,103 @@ class DiscordMusicBot {
           min_value: 0,
           max_value: 100
         }]
+      },
+      {
+        name: 'lyrics',
+        description: 'Show the lyrics of the current song or any other',
+        options: [{
+          name: 'query',
+          description: 'Song to look up (defaults to the one playing)',
+          type: 3, // STRING
+          required: false
+        }]
+      },
+      {
+        name: 'filter',
+        description: 'Apply audio effects and equalizer settings',
+        options: [
+          {
+            name: 'preset',
+            description: 'Turn an effect on or off',
+            type: 1, // SUB_COMMAND
+            options: [{
+              name: 'name',
+              description: 'Effect to toggle',
+              type: 3, // STRING
+              required: true,
+              choices: FILTER_PRESETS.map(preset => ({ name: `${preset.name} - ${preset.description}`, value: preset.id }))
+            }]
+          },
+          {
+            name: 'eq',
+            description: 'Boost or cut one equalizer band',
+            type: 1, // SUB_COMMAND
+            options: [
+              {
+                name: 'band',
+                description: 'Frequency band',
+                type: 4, // INTEGER
+                required: true,
+                choices: EQ_BANDS.map(frequency => ({ name: formatFrequency(frequency), value: frequency }))
+              },
+              {
+                name: 'gain',
+                description: `Gain in dB (-${EQ_MAX_GAIN} to ${EQ_MAX_GAIN}, 0 for flat)`,
+                type: 4, // INTEGER
+                required: true,
+                min_value: -EQ_MAX_GAIN,
+                max_value: EQ_MAX_GAIN
+              }
+            ]
+          },
+          {
+            name: 'clear',
+            description: 'Remove all effects and flatten the equalizer',
+            type: 1 // SUB_COMMAND
+          },
+          {
+            name: 'status',
+            description: 'Show the active effects and equalizer',
+            type: 1 // SUB_COMMAND
+          }
+        ]
+      },
+      {
+        name: 'settings',
+        description: 'Configure volume limits, the DJ role and vote-skip for this server',
+        default_member_permissions: PermissionFlagsBits.ManageGuild.toString(),
+        options: [
+          {
+            name: 'default_volume',
+            description: 'Volume new sessions start at (0-100)',
+            type: 4, // INTEGER
+            required: false,
+            min_value: 0,
+            max_value: 100
+          },
+          {
+            name: 'max_volume',
+            description: 'Highest volume anyone can set (1-100)',
+            type: 4, // INTEGER
+            required: false,
+            min_value: 1,
+            max_value: 100
+          },
+          {
+            name: 'dj_role',
+            description: 'Role that can skip, stop and rearrange anyone\'s music (@everyone to allow all)',
+            type: 8, // ROLE
+            required: false
+          },
+          {
+            name: 'vote_skip_percent',
+            description: 'Share of listeners that must vote before a non-DJ skip goes through (1-100)',
+            type: 4, // INTEGER
+            required: false,
+            min_value: 1,
+            max_value: 100
+          }
+        ]
       }
     ];
 
@@ -267,12 +555,24 @@ class DiscordMusicBot {
       };
       this.io.emit('stats-update', stats);
     }, 5000);
+
+    // Keep dashboard progress bars in sync; clients interpolate between updates
+    setInterval(() => {
+      for (const guildId of this.musicManager.getConnectedGuildIds()) {
+        const queue = this.musicManager.getQueue(guildId);
+        if (queue?.isPlaying && !queue.isPaused) {
+          this.io.to(`server:${guildId}`).emit('position-update', guildId, queue.position);
+        }
+      }
+    }, 2000);
   }
 
-  private broadcastServersUpdate() {
-    const servers: ServerInfo[] = this.client.guilds.cache.map(guild => {
+  // Only lists guilds the dashboard user shares with the bot
+  private getServersInfo(guildIds: string[]): ServerInfo[] {
+    return this.client.guilds.cache.filter(guild => guildIds.includes(guild.id)).map(guild => {
       const connection = this.musicManager.getConnection(guild.id);
       const queue = this.musicManager.getQueue(guild.id);
+      const settings = this.musicManager.getSettings(guild.id);
       
       return {
         id: guild.id,
@@ -290,13 +590,23 @@ class DiscordMusicBot {
           currentTrack: null,
           isPlaying: false,
           isPaused: false,
-          volume: 100,
+          volume: settings.defaultVolume,
           loop: 'none',
-          shuffle: false
-        }
+          shuffle: false,
+          position: 0,
+          history: [],
+          filters: createDefaultFilters(),
+          autoplay: false
+        },
+        settings
       };
     });
-    this.io.emit('servers-list', servers);
+  }
+
+  private broadcastServersUpdate() {
+    for (const socket of this.io.sockets.sockets.values()) {
+      socket.emit('servers-list', this.getServersInfo(socket.data.guildIds ?? []));
+    }
   }
 
   public async start() {
@@ -315,7 +625,8 @@ class DiscordMusicBot {
 
   public async shutdown() {
     logger.info('Shutting down bot...');
-    this.musicManager.cleanup();
+    await this.musicManager.shutdown();
+    await this.playlistManager.shutdown();
     await this.client.destroy();
     this.server.close();
     process.exit(0);
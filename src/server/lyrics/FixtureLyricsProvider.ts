@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Lyrics } from '../../shared/types.js';
+import { LyricsProvider, LyricsQuery } from './LyricsProvider.js';
+import { lrcToPlainText, parseLrc } from './lrc.js';
+import { normalizeForMatching } from './cleanTitle.js';
+
+// Serves lyrics from a local folder of "Artist - Title.lrc" or ".txt" files, for tests and offline use
+export class FixtureLyricsProvider implements LyricsProvider {
+  public readonly name = 'Local files';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  public async search(query: LyricsQuery): Promise<Lyrics | null> {
+    const files = await fs.readdir(this.directory);
+    const wantedTitle = normalizeForMatching(query.title);
+    const wantedArtist = query.artist ? normalizeForMatching(query.artist) : null;
+
+    const file = files.find(name => {
+      const extension = path.extname(name).toLowerCase();
+      if (extension !== '.lrc' && extension !== '.txt') return false;
+
+      const [artist, title] = this.splitFileName(path.basename(name, extension));
+      return normalizeForMatching(title) === wantedTitle &&
+        (!wantedArtist || !artist || normalizeForMatching(artist) === wantedArtist);
+    });
+
+    if (!file) return null;
+
+    const contents = await fs.readFile(path.join(this.directory, file), 'utf8');
+    const [artist, title] = this.splitFileName(path.basename(file, path.extname(file)));
+    const synced = parseLrc(contents);
+
+    return {
+      title,
+      ...(artist && { artist }),
+      source: this.name,
+      plain: synced.length ? lrcToPlainText(synced) : contents.trim(),
+      ...(synced.length > 0 && { synced })
+    };
+  }
+
+  private splitFileName(name: string): [artist: string | undefined, title: string] {
+    const separator = name.indexOf(' - ');
+    return separator === -1 ? [undefined, name] : [name.slice(0, separator), name.slice(separator + 3)];
+  }
+}
@@ -0,0 +1,58 @@
+import { Lyrics } from '../../shared/types.js';
+import { LyricsProvider, LyricsQuery } from './LyricsProvider.js';
+import { lrcToPlainText, parseLrc } from './lrc.js';
+
+const LRCLIB_API_URL = 'https://lrclib.net/api';
+const REQUEST_TIMEOUT_MS = 10_000;
+// Results further than this from the track's length are probably a different version
+const DURATION_TOLERANCE = 10;
+
+interface LrclibRecord {
+  trackName: string;
+  artistName: string;
+  duration: number;
+  instrumental: boolean;
+  plainLyrics: string | null;
+  syncedLyrics: string | null;
+}
+
+// Free, keyless lyrics database with time-synced lyrics for many songs
+export class LrclibProvider implements LyricsProvider {
+  public readonly name = 'LRCLIB';
+
+  public async search(query: LyricsQuery): Promise<Lyrics | null> {
+    const params = new URLSearchParams(query.artist
+      ? { track_name: query.title, artist_name: query.artist }
+      : { q: query.title });
+
+    const response = await fetch(`${LRCLIB_API_URL}/search?${params}`, {
+      headers: { 'User-Agent': 'discord-music-bot' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`LRCLIB responded with ${response.status}`);
+    }
+
+    const records = (await response.json()) as LrclibRecord[];
+    const withLyrics = records.filter(record => !record.instrumental && (record.plainLyrics || record.syncedLyrics));
+    const best = withLyrics.find(record => this.matchesDuration(record, query.duration) && record.syncedLyrics)
+      ?? withLyrics.find(record => this.matchesDuration(record, query.duration))
+      ?? withLyrics[0];
+
+    if (!best) return null;
+
+    const synced = best.syncedLyrics ? parseLrc(best.syncedLyrics) : undefined;
+    return {
+      title: best.trackName,
+      artist: best.artistName,
+      source: this.name,
+      plain: best.plainLyrics?.trim() || (synced ? lrcToPlainText(synced) : ''),
+      ...(synced && synced.length > 0 && { synced })
+    };
+  }
+
+  private matchesDuration(record: LrclibRecord, duration?: number): boolean {
+    return !duration || Math.abs(record.duration - duration) <= DURATION_TOLERANCE;
+  }
+}
@@ -0,0 +1,14 @@
+import { Lyrics } from '../../shared/types.js';
+
+export interface LyricsQuery {
+  title: string;
+  artist?: string;
+  // Track length in seconds, used to pick the right version when a provider has several
+  duration?: number;
+}
+
+// Anything that can look up lyrics; LyricsService tries its providers in order
+export interface LyricsProvider {
+  readonly name: string;
+  search(query: LyricsQuery): Promise<Lyrics | null>;
+}
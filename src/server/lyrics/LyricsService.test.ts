@@ -0,0 +1,91 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Lyrics } from '../../shared/types.js';
+import { LyricsProvider, LyricsQuery } from './LyricsProvider.js';
+import { LyricsService } from './LyricsService.js';
+import { FixtureLyricsProvider } from './FixtureLyricsProvider.js';
+
+class StubProvider implements LyricsProvider {
+  public calls: LyricsQuery[] = [];
+
+  constructor(public readonly name: string, private answer: () => Promise<Lyrics | null>) {}
+
+  public search(query: LyricsQuery): Promise<Lyrics | null> {
+    this.calls.push(query);
+    return this.answer();
+  }
+}
+
+const found = (source: string): Lyrics => ({ title: 'Song', source, plain: 'La la la' });
+
+describe('LyricsService', () => {
+  it('asks providers in order and stops at the first hit', async () => {
+    const failing = new StubProvider('failing', () => Promise.reject(new Error('down')));
+    const empty = new StubProvider('empty', () => Promise.resolve(null));
+    const hit = new StubProvider('hit', () => Promise.resolve(found('hit')));
+    const unused = new StubProvider('unused', () => Promise.resolve(found('unused')));
+
+    const lyrics = await new LyricsService([failing, empty, hit, unused]).find('Artist - Song (Official Video)', 200);
+
+    assert.equal(lyrics?.source, 'hit');
+    assert.deepEqual(failing.calls, [{ artist: 'Artist', title: 'Song', duration: 200 }]);
+    assert.equal(empty.calls.length, 1);
+    assert.equal(unused.calls.length, 0);
+  });
+
+  it('caches hits and confirmed misses', async () => {
+    const empty = new StubProvider('empty', () => Promise.resolve(null));
+    const service = new LyricsService([empty]);
+
+    assert.equal(await service.find('Artist - Song'), null);
+    assert.equal(await service.find('Artist - Song'), null);
+    assert.equal(empty.calls.length, 1);
+  });
+
+  it('does not cache a miss when a provider failed', async () => {
+    let down = true;
+    const flaky = new StubProvider('flaky', () => down ? Promise.reject(new Error('timeout')) : Promise.resolve(found('flaky')));
+    const service = new LyricsService([flaky]);
+
+    assert.equal(await service.find('Artist - Song'), null);
+    down = false;
+    assert.equal((await service.find('Artist - Song'))?.source, 'flaky');
+  });
+});
+
+describe('FixtureLyricsProvider', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'lyrics-'));
+    await fs.writeFile(path.join(directory, 'Rick Astley - Never Gonna Give You Up.lrc'), '[00:18.00] We\'re no strangers to love\n[00:22.50] You know the rules');
+    await fs.writeFile(path.join(directory, 'Plain Song.txt'), 'Some words\n');
+    await fs.writeFile(path.join(directory, 'Notes.md'), 'not lyrics');
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('matches "Artist - Title" files regardless of case and punctuation', async () => {
+    const lyrics = await new FixtureLyricsProvider(directory).search({ artist: 'rick astley', title: 'never gonna give you up!' });
+
+    assert.equal(lyrics?.artist, 'Rick Astley');
+    assert.equal(lyrics?.plain, 'We\'re no strangers to love\nYou know the rules');
+    assert.deepEqual(lyrics?.synced?.[1], { time: 22.5, text: 'You know the rules' });
+  });
+
+  it('serves unsynced lyrics from text files', async () => {
+    const lyrics = await new FixtureLyricsProvider(directory).search({ artist: 'Anyone', title: 'Plain Song' });
+
+    assert.equal(lyrics?.plain, 'Some words');
+    assert.equal(lyrics?.synced, undefined);
+  });
+
+  it('misses when the artist does not match', async () => {
+    assert.equal(await new FixtureLyricsProvider(directory).search({ artist: 'Someone Else', title: 'Never Gonna Give You Up' }), null);
+  });
+});
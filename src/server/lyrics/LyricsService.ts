@@ -0,0 +1,72 @@
+import { Lyrics } from '../../shared/types.js';
+import { logger } from '../utils/logger.js';
+import { LyricsProvider } from './LyricsProvider.js';
+import { cleanTrackTitle } from './cleanTitle.js';
+import { LrclibProvider } from './LrclibProvider.js';
+import { FixtureLyricsProvider } from './FixtureLyricsProvider.js';
+
+const CACHE_LIMIT = 100;
+
+// Looks lyrics up through a chain of providers, first hit wins
+export class LyricsService {
+  private providers: LyricsProvider[];
+  // Keyed by the cleaned search; confirmed misses are cached too so a song without lyrics isn't looked up again
+  private cache: Map<string, Lyrics | null> = new Map();
+
+  constructor(providers: LyricsProvider[]) {
+    this.providers = providers;
+  }
+
+  // Accepts a raw video title or a typed search; upload noise like "(Official Video)" is stripped first
+  public async find(rawTitle: string, duration?: number): Promise<Lyrics | null> {
+    const query = { ...cleanTrackTitle(rawTitle), ...(duration && { duration }) };
+    const cacheKey = `${query.artist ?? ''}|${query.title}|${duration ?? ''}`.toLowerCase();
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey) ?? null;
+    }
+
+    let lyrics: Lyrics | null = null;
+    let failed = false;
+    for (const provider of this.providers) {
+      try {
+        lyrics = await provider.search(query);
+        if (lyrics) break;
+      } catch (error) {
+        failed = true;
+        logger.warn(`Lyrics provider ${provider.name} failed for "${query.title}":`, error);
+      }
+    }
+
+    // A miss only counts once every provider has actually answered; an outage shouldn't hide the song's lyrics for good
+    if (lyrics || !failed) {
+      this.remember(cacheKey, lyrics);
+    }
+    return lyrics;
+  }
+
+  private remember(key: string, lyrics: Lyrics | null): void {
+    if (this.cache.size >= CACHE_LIMIT) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, lyrics);
+  }
+}
+
+// LYRICS_PROVIDERS picks the providers and their order, e.g. "local,lrclib" to prefer files in LYRICS_DIR
+export function createLyricsService(): LyricsService {
+  const names = (process.env.LYRICS_PROVIDERS || 'lrclib').split(',').map(name => name.trim().toLowerCase());
+  const providers: LyricsProvider[] = [];
+
+  for (const name of names) {
+    if (name === 'lrclib') {
+      providers.push(new LrclibProvider());
+    } else if (name === 'local' && process.env.LYRICS_DIR) {
+      providers.push(new FixtureLyricsProvider(process.env.LYRICS_DIR));
+    } else {
+      logger.warn(`Ignoring lyrics provider "${name}"${name === 'local' ? ' (LYRICS_DIR is not set)' : ''}`);
+    }
+  }
+
+  return new LyricsService(providers);
+}
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cleanTrackTitle, normalizeForMatching } from './cleanTitle.js';
+
+describe('cleanTrackTitle', () => {
+  it('splits "Artist - Title" and drops upload noise', () => {
+    assert.deepEqual(cleanTrackTitle('Rick Astley - Never Gonna Give You Up (Official Music Video)'), {
+      artist: 'Rick Astley',
+      title: 'Never Gonna Give You Up'
+    });
+  });
+
+  it('drops featured artists and trailing channel decorations', () => {
+    assert.deepEqual(cleanTrackTitle('Calvin Harris - Feels ft. Pharrell Williams [Lyrics] | Best Hits'), {
+      artist: 'Calvin Harris',
+      title: 'Feels'
+    });
+  });
+
+  it('keeps bracketed parts that belong to the song', () => {
+    assert.deepEqual(cleanTrackTitle('Queen - Bohemian Rhapsody (Live Aid 1985)'), {
+      artist: 'Queen',
+      title: 'Bohemian Rhapsody (Live Aid 1985)'
+    });
+  });
+
+  it('folds accents, however they are encoded', () => {
+    const composed = cleanTrackTitle('Beyonc\u00e9 - D\u00e9j\u00e0 Vu');
+    const decomposed = cleanTrackTitle('Beyonce\u0301 - De\u0301ja\u0300 Vu');
+
+    assert.deepEqual(composed, { artist: 'Beyonce', title: 'Deja Vu' });
+    assert.deepEqual(decomposed, composed);
+  });
+
+  it('returns just a title when there is no artist separator', () => {
+    assert.deepEqual(cleanTrackTitle('Bohemian Rhapsody [HD]'), { title: 'Bohemian Rhapsody' });
+  });
+
+  it('falls back to the raw title when everything is noise', () => {
+    assert.deepEqual(cleanTrackTitle(' (Official Video) '), { title: '(Official Video)' });
+  });
+});
+
+describe('normalizeForMatching', () => {
+  it('ignores case, accents and punctuation', () => {
+    assert.equal(normalizeForMatching('Beyoncé — Halo!'), normalizeForMatching('beyonce halo'));
+  });
+});
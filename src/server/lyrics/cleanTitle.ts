@@ -0,0 +1,43 @@
+// Bracketed parts that describe the upload rather than the song, e.g. "(Official Video)" or "[Lyrics]"
+const UPLOAD_NOISE_PATTERN = /\s*[([【「][^)\]】」]*\b(?:official|lyrics?|audio|video|visuali[sz]er|hd|hq|4k|remaster(?:ed)?|m\/?v|explicit|color coded)\b[^)\]】」]*[)\]】」]/gi;
+const FEATURING_PATTERN = /\s*[([]?\b(?:ft|feat|featuring)\.?\s[^)\]]*[)\]]?/gi;
+// Trailing "| Channel Name" or "// Label" decorations
+const TRAILING_DECORATION_PATTERN = /\s*(?:\||\/\/).*$/;
+// Accents left over as separate marks once a string is NFKD-normalized
+const COMBINING_MARKS_PATTERN = /[\u0300-\u036f]/g;
+
+export interface CleanedTitle {
+  title: string;
+  artist?: string;
+}
+
+// Turns a video title like "Artist - Song (Official Video) ft. Someone" into { artist, title }
+export function cleanTrackTitle(rawTitle: string): CleanedTitle {
+  const cleaned = rawTitle
+    .normalize('NFKD')
+    .replace(COMBINING_MARKS_PATTERN, '')
+    .replace(UPLOAD_NOISE_PATTERN, '')
+    .replace(FEATURING_PATTERN, '')
+    .replace(TRAILING_DECORATION_PATTERN, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+  const separator = cleaned.search(/\s[-–—]\s/);
+  if (separator === -1) {
+    return { title: cleaned || rawTitle.trim() };
+  }
+
+  const artist = cleaned.slice(0, separator).trim();
+  const title = cleaned.slice(separator).replace(/^\s[-–—]\s/, '').trim();
+  return title ? { title, artist } : { title: artist };
+}
+
+// Case, accents and punctuation shouldn't stop two titles from matching
+export function normalizeForMatching(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(COMBINING_MARKS_PATTERN, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
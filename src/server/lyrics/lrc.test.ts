@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { lrcToPlainText, parseLrc } from './lrc.js';
+
+describe('parseLrc', () => {
+  it('reads timestamps and skips metadata lines', () => {
+    const lines = parseLrc('[ar:Someone]\n[00:01.50] First line\r\n[01:02] Second line\n');
+    assert.deepEqual(lines, [
+      { time: 1.5, text: 'First line' },
+      { time: 62, text: 'Second line' }
+    ]);
+  });
+
+  it('expands repeated lines and sorts them by time', () => {
+    const lines = parseLrc('[00:10.00][00:30.00] Chorus\n[00:20.00] Verse');
+    assert.deepEqual(lines, [
+      { time: 10, text: 'Chorus' },
+      { time: 20, text: 'Verse' },
+      { time: 30, text: 'Chorus' }
+    ]);
+  });
+
+  it('keeps instrumental gaps as empty lines', () => {
+    assert.deepEqual(parseLrc('[00:05.00]'), [{ time: 5, text: '' }]);
+  });
+
+  it('returns nothing for plain text', () => {
+    assert.deepEqual(parseLrc('Just some words\nwithout timing'), []);
+  });
+});
+
+describe('lrcToPlainText', () => {
+  it('joins the line texts', () => {
+    assert.equal(lrcToPlainText([{ time: 1, text: 'One' }, { time: 2, text: 'Two' }]), 'One\nTwo');
+  });
+});
@@ -0,0 +1,24 @@
+import { LyricsLine } from '../../shared/types.js';
+
+const TIMESTAMP_PATTERN = /\[(\d+):(\d+(?:\.\d+)?)\]/g;
+
+// Parses "[mm:ss.xx] text" lines; a line may carry several timestamps when it repeats
+export function parseLrc(lrc: string): LyricsLine[] {
+  const lines: LyricsLine[] = [];
+
+  for (const raw of lrc.split(/\r?\n/)) {
+    const timestamps = [...raw.matchAll(TIMESTAMP_PATTERN)];
+    if (!timestamps.length) continue;
+
+    const text = raw.replace(TIMESTAMP_PATTERN, '').trim();
+    for (const [, minutes, seconds] of timestamps) {
+      lines.push({ time: parseInt(minutes, 10) * 60 + parseFloat(seconds), text });
+    }
+  }
+
+  return lines.sort((a, b) => a.time - b.time);
+}
+
+export function lrcToPlainText(lines: LyricsLine[]): string {
+  return lines.map(line => line.text).join('\n').trim();
+}
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitLyrics } from './splitLyrics.js';
+
+describe('splitLyrics', () => {
+  it('keeps short lyrics on one page', () => {
+    assert.deepEqual(splitLyrics('One\nTwo\n\nThree', 100), ['One\nTwo\n\nThree']);
+  });
+
+  it('breaks between verses when a page fills up', () => {
+    assert.deepEqual(splitLyrics('aaaa\nbbbb\n\ncccc\ndddd', 12), ['aaaa\nbbbb', 'cccc\ndddd']);
+  });
+
+  it('breaks a verse that is too long for a page between its lines', () => {
+    assert.deepEqual(splitLyrics('aaaa\nbbbb\ncccc', 10), ['aaaa\nbbbb', 'cccc']);
+  });
+
+  it('never returns a page over the limit', () => {
+    const pages = splitLyrics(`${'x'.repeat(25)}\n\nshort`, 10);
+    assert.ok(pages.every(page => page.length <= 10));
+  });
+
+  it('returns no pages for empty lyrics', () => {
+    assert.deepEqual(splitLyrics('', 10), []);
+  });
+});
@@ -0,0 +1,22 @@
+// Breaks lyrics into pages of at most maxLength characters, preferring to break between verses
+export function splitLyrics(lyrics: string, maxLength: number): string[] {
+  const pages: string[] = [];
+  let current = '';
+
+  for (const verse of lyrics.split(/\n{2,}/)) {
+    const lines = verse.length > maxLength ? verse.split('\n') : [verse];
+
+    lines.forEach((piece, index) => {
+      const separator = current ? (index === 0 ? '\n\n' : '\n') : '';
+      if (current && current.length + separator.length + piece.length > maxLength) {
+        pages.push(current);
+        current = piece.slice(0, maxLength);
+      } else {
+        current += separator + piece.slice(0, maxLength);
+      }
+    });
+  }
+
+  if (current) pages.push(current);
+  return pages;
+}
@@ -0,0 +1,244 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { AudioPlayerStatus } from '@discordjs/voice';
+import { Client } from 'discord.js';
+import { Queue, Track } from '../../shared/types.js';
+import { createDefaultFilters } from '../../shared/filters.js';
+import { MusicManager } from './MusicManager.js';
+
+const GUILD_ID = 'guild';
+
+function createTrack(id: string): Track {
+  return {
+    id,
+    title: `Track ${id}`,
+    duration: 180,
+    url: `https://example.com/${id}.mp3`,
+    requester: { id: 'user', username: 'User' },
+    source: 'http'
+  };
+}
+
+// A manager with one guild's queue and no voice connection; play() only records where it would start
+function createManager(queue: Partial<Queue> = {}) {
+  const manager = new MusicManager(new EventEmitter() as unknown as Client);
+  const plays: number[] = [];
+  manager['play'] = async (_guildId: string, startAt = 0) => {
+    plays.push(startAt);
+    return true;
+  };
+  manager['queues'].set(GUILD_ID, {
+    tracks: [],
+    currentTrack: null,
+    isPlaying: true,
+    isPaused: false,
+    volume: 50,
+    loop: 'none',
+    shuffle: false,
+    position: 0,
+    history: [],
+    filters: createDefaultFilters(),
+    autoplay: false,
+    ...queue
+  });
+  return { manager, plays, queue: manager['queues'].get(GUILD_ID)! };
+}
+
+// Gives the guild a stand-in voice connection whose player only counts pauses and stops
+function connect(manager: MusicManager, status = AudioPlayerStatus.Playing) {
+  const player = {
+    state: { status },
+    pauses: 0,
+    stops: 0,
+    pause() { this.pauses++; return true; },
+    stop() { this.stops++; return true; }
+  };
+  manager['connections'].set(GUILD_ID, { player } as unknown as NonNullable<ReturnType<MusicManager['getConnection']>>);
+  return player;
+}
+
+const ids = (tracks: Track[]) => tracks.map(track => track.id);
+
+describe('MusicManager.playNext', () => {
+  it('moves on to the next track and keeps the finished one in history', async () => {
+    const { manager, plays, queue } = createManager({ currentTrack: createTrack('a'), tracks: [createTrack('b')] });
+
+    await manager['playNext'](GUILD_ID);
+
+    assert.equal(queue.currentTrack?.id, 'b');
+    assert.deepEqual(ids(queue.tracks), []);
+    assert.deepEqual(ids(queue.history), ['a']);
+    assert.deepEqual(plays, [0]);
+  });
+
+  it('replays the same track when looping it', async () => {
+    const { manager, plays, queue } = createManager({ loop: 'track', currentTrack: createTrack('a'), tracks: [createTrack('b')] });
+
+    await manager['playNext'](GUILD_ID);
+
+    assert.equal(queue.currentTrack?.id, 'a');
+    assert.deepEqual(ids(queue.tracks), ['b']);
+    assert.deepEqual(queue.history, []);
+    assert.deepEqual(plays, [0]);
+  });
+
+  it('advances past a looping track that was skipped', async () => {
+    const { manager, queue } = createManager({ loop: 'track', currentTrack: createTrack('a'), tracks: [createTrack('b')] });
+    manager['skipRequests'].add(GUILD_ID);
+
+    await manager['playNext'](GUILD_ID);
+
+    assert.equal(queue.currentTrack?.id, 'b');
+    assert.equal(manager['skipRequests'].has(GUILD_ID), false);
+  });
+
+  it('puts the finished track back at the end when looping the queue', async () => {
+    const { manager, queue } = createManager({ loop: 'queue', currentTrack: createTrack('a'), tracks: [createTrack('b'), createTrack('c')] });
+
+    await manager['playNext'](GUILD_ID);
+
+    assert.equal(queue.currentTrack?.id, 'b');
+    assert.deepEqual(ids(queue.tracks), ['c', 'a']);
+  });
+
+  it('keeps a single looping track going when the queue loops', async () => {
+    const { manager, plays, queue } = createManager({ loop: 'queue', currentTrack: createTrack('a') });
+
+    await manager['playNext'](GUILD_ID);
+
+    assert.equal(queue.currentTrack?.id, 'a');
+    assert.deepEqual(plays, [0]);
+  });
+
+  it('stops when the queue runs out without looping', async () => {
+    const { manager, plays, queue } = createManager({ currentTrack: createTrack('a') });
+
+    await manager['playNext'](GUILD_ID);
+
+    assert.equal(queue.currentTrack, null);
+    assert.deepEqual(plays, []);
+  });
+});
+
+describe('MusicManager.seek', () => {
+  it('starts the stream at the requested position', async () => {
+    const { manager, plays } = createManager({ currentTrack: createTrack('a') });
+    connect(manager);
+
+    assert.equal(await manager.seek(GUILD_ID, 65), true);
+    assert.deepEqual(plays, [65_000]);
+  });
+
+  it('keeps the position within the track', async () => {
+    const { manager, plays } = createManager({ currentTrack: createTrack('a') });
+    connect(manager);
+
+    await manager.seek(GUILD_ID, 500);
+    await manager.seek(GUILD_ID, -10);
+    assert.deepEqual(plays, [179_000, 0]);
+  });
+
+  it('refuses positions that are not numbers', async () => {
+    const { manager, plays } = createManager({ currentTrack: createTrack('a') });
+    connect(manager);
+
+    assert.equal(await manager.seek(GUILD_ID, NaN), false);
+    assert.equal(await manager.seek(GUILD_ID, Infinity), false);
+    assert.deepEqual(plays, []);
+  });
+
+  it('refuses when nothing is playing', async () => {
+    const { manager } = createManager();
+    connect(manager);
+
+    assert.equal(await manager.seek(GUILD_ID, 10), false);
+  });
+
+  it('pauses again after seeking in a paused track', async () => {
+    const { manager } = createManager({ currentTrack: createTrack('a'), isPaused: true });
+    const player = connect(manager);
+
+    await manager.seek(GUILD_ID, 30);
+    assert.equal(player.pauses, 1);
+  });
+});
+
+describe('MusicManager.moveTrack', () => {
+  it('moves a track to another place in the queue', () => {
+    const { manager, queue } = createManager({ tracks: ['a', 'b', 'c', 'd'].map(createTrack) });
+
+    assert.equal(manager.moveTrack(GUILD_ID, 0, 2), true);
+    assert.deepEqual(ids(queue.tracks), ['b', 'c', 'a', 'd']);
+    assert.equal(manager.moveTrack(GUILD_ID, 3, 0), true);
+    assert.deepEqual(ids(queue.tracks), ['d', 'b', 'c', 'a']);
+  });
+
+  it('rejects positions outside the queue or between tracks', () => {
+    const { manager, queue } = createManager({ tracks: ['a', 'b'].map(createTrack) });
+
+    for (const [from, to] of [[-1, 0], [0, 2], [2, 0], [0.5, 1], [0, NaN]]) {
+      assert.equal(manager.moveTrack(GUILD_ID, from, to), false, `${from} -> ${to}`);
+    }
+    assert.deepEqual(ids(queue.tracks), ['a', 'b']);
+  });
+});
+
+describe('MusicManager.removeTrack', () => {
+  it('removes the track at the index', () => {
+    const { manager, queue } = createManager({ tracks: ['a', 'b', 'c'].map(createTrack) });
+
+    assert.equal(manager.removeTrack(GUILD_ID, 1), true);
+    assert.deepEqual(ids(queue.tracks), ['a', 'c']);
+  });
+
+  it('rejects fractional and out of range indexes', () => {
+    const { manager, queue } = createManager({ tracks: ['a', 'b', 'c'].map(createTrack) });
+
+    for (const index of [1.5, -1, 3, NaN]) {
+      assert.equal(manager.removeTrack(GUILD_ID, index), false, `${index}`);
+    }
+    assert.deepEqual(ids(queue.tracks), ['a', 'b', 'c']);
+  });
+});
+
+describe('MusicManager.skipTo', () => {
+  it('drops the tracks before the chosen one and skips the current track', () => {
+    const { manager, queue } = createManager({ currentTrack: createTrack('a'), tracks: ['b', 'c', 'd'].map(createTrack) });
+    const player = connect(manager);
+
+    assert.equal(manager.skipTo(GUILD_ID, 2), true);
+    assert.deepEqual(ids(queue.tracks), ['d']);
+    assert.equal(player.stops, 1);
+    assert.equal(manager['skipRequests'].has(GUILD_ID), true);
+  });
+
+  it('keeps the loop order when the queue loops', () => {
+    const { manager, queue } = createManager({ loop: 'queue', currentTrack: createTrack('a'), tracks: ['b', 'c', 'd'].map(createTrack) });
+    connect(manager);
+
+    manager.skipTo(GUILD_ID, 2);
+    assert.equal(queue.currentTrack, null);
+    assert.deepEqual(ids(queue.tracks), ['d', 'a', 'b', 'c']);
+  });
+
+  it('starts the chosen track straight away when the player is idle', async () => {
+    const { manager, plays, queue } = createManager({ tracks: ['b', 'c'].map(createTrack) });
+    const player = connect(manager, AudioPlayerStatus.Idle);
+
+    assert.equal(manager.skipTo(GUILD_ID, 1), true);
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.equal(queue.currentTrack?.id, 'c');
+    assert.deepEqual(plays, [0]);
+    assert.equal(player.stops, 0);
+  });
+
+  it('rejects positions outside the queue', () => {
+    const { manager } = createManager({ tracks: [createTrack('b')] });
+    connect(manager);
+
+    assert.equal(manager.skipTo(GUILD_ID, 1), false);
+    assert.equal(manager.skipTo(GUILD_ID, 0.5), false);
+  });
+});
@@ -1,4 +1,5 @@
-import { Client, VoiceChannel, TextChannel } from 'discord.js';
+import { EventEmitter } from 'events';
+import { Client, VoiceChannel, TextChannel, VoiceState } from 'discord.js';
 import { 
   joinVoiceChannel, 
   createAudioPlayer, 
@@ -6,59 +7,136 @@ import {
   AudioPlayerStatus,
   VoiceConnection,
   AudioPlayer,
+  AudioResource,
   VoiceConnectionStatus,
-  entersState
+  VoiceConnectionDisconnectReason,
+  entersState,
+  StreamType
 } from '@discordjs/voice';
-import { search, stream } from 'play-dl';
-import SpotifyWebApi from 'spotify-web-api-node';
 import { logger } from '../utils/logger.js';
-import { Track, Queue } from '../../shared/types.js';
+import { JsonStore } from '../storage/JsonStore.js';
+import { Track, Queue, GuildSettings, LoopMode, SearchResult, Playlist, AudioFilters } from '../../shared/types.js';
+import { createDefaultFilters, hasActiveFilters } from '../../shared/filters.js';
+import { buildFilterGraph, createFilteredStream, getPlaybackSpeed, isFFmpegAvailable, sanitizeFilters } from './filters.js';
+import { AddTrackResult } from './sources/SourceProvider.js';
+import { SourceRegistry, createSourceRegistry } from './sources/SourceRegistry.js';
+import { isExpiredAttachment } from './sources/attachments.js';
+
+export type { AddTrackResult };
 
 interface GuildConnection {
   connection: VoiceConnection;
   player: AudioPlayer;
   voiceChannel: VoiceChannel;
   textChannel?: TextChannel;
+  resource?: AudioResource;
+  // Where in the current track the resource started, in ms (non-zero after a resume or seek)
+  startOffset: number;
+  // Track seconds played per second of output; speed-changing filters move it away from 1
+  playbackSpeed: number;
+  volumeRamp?: NodeJS.Timeout;
+  idleTimer?: NodeJS.Timeout;
+  emptyChannelTimer?: NodeJS.Timeout;
+  // Set when playback was paused because everyone left, so it can resume when someone returns
+  pausedForEmptyChannel?: boolean;
+  reconnectAttempts: number;
+  // Set while reconnect() is working on the connection, so further disconnects don't start another attempt
+  reconnecting?: boolean;
+  // Position to resume from if the stream died while the connection was down, in ms
+  resumePosition?: number;
+  // Set by the player's error event so the Idle that follows recovers the track instead of moving on
+  streamError?: unknown;
+  // Times the current track's stream broke after it had started playing
+  streamFailures: number;
+}
+
+const VOLUME_RAMP_DURATION_MS = 400;
+const VOLUME_RAMP_STEPS = 10;
+
+const LOOP_MODES: LoopMode[] = ['none', 'track', 'queue'];
+
+export interface SavedSession {
+  voiceChannelId: string;
+  textChannelId?: string;
+  queue: Queue;
+  // Playback position in the current track, in ms
+  position: number;
+  savedAt: number;
+}
+
+interface PersistedState {
+  sessions: Record<string, SavedSession>;
+  settings: Record<string, GuildSettings>;
+}
+
+export interface SkipVoteResult {
+  track: Track;
+  votes: number;
+  required: number;
+  passed: boolean;
+}
+
+interface SkipVote {
+  track: Track;
+  voters: Set<string>;
 }
 
-export class MusicManager {
+export type DisconnectReason = 'idle' | 'empty-channel' | 'kicked' | 'connection-lost';
+
+// Everything that changes playback state is announced here, so listeners never have to poll
+export interface MusicManagerEvents {
+  trackStart: [guildId: string, track: Track];
+  trackEnd: [guildId: string, track: Track];
+  queueChanged: [guildId: string, queue: Queue];
+  connectionChanged: [guildId: string, connected: boolean, reason?: DisconnectReason];
+  error: [guildId: string, message: string];
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+const RECONNECT_READY_TIMEOUT_MS = 20_000;
+
+const STREAM_RETRY_ATTEMPTS = 2;
+const STREAM_RETRY_DELAY_MS = 1000;
+
+const HISTORY_LIMIT = 50;
+
+// Autoplay won't pick anything played within this many tracks
+const AUTOPLAY_REPEAT_WINDOW = 25;
+// Related videos come from the last few tracks played, most recent first
+const AUTOPLAY_SEED_COUNT = 3;
+// Picks randomly among this many of the closest matches so the radio doesn't always take the same path
+const AUTOPLAY_CANDIDATE_POOL = 5;
+// Skips hour-long mixes and compilations
+const AUTOPLAY_MAX_DURATION = 15 * 60;
+
+const STATE_SAVE_INTERVAL_MS = 15_000;
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export class MusicManager extends EventEmitter<MusicManagerEvents> {
   private client: Client;
   private connections: Map<string, GuildConnection> = new Map();
   private queues: Map<string, Queue> = new Map();
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private spotify?: any;
+  private settings: Map<string, GuildSettings> = new Map();
+  private skipRequests: Set<string> = new Set();
+  private skipVotes: Map<string, SkipVote> = new Map();
+  private pendingSessions: Map<string, SavedSession> = new Map();
+  private store = new JsonStore<PersistedState>('state.json', { sessions: {}, settings: {} });
+  private stateLoaded = false;
+  private sources: SourceRegistry = createSourceRegistry();
 
   constructor(client: Client) {
+    super();
     this.client = client;
-    this.initializeSpotify();
-  }
-
-  private initializeSpotify() {
-    if (process.env.SPOTIFY_CLIENT_ID && process.env.SPOTIFY_CLIENT_SECRET) {
-      this.spotify = new SpotifyWebApi({
-        clientId: process.env.SPOTIFY_CLIENT_ID,
-        clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
-      });
 
-      this.spotify.clientCredentialsGrant().then(
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (data: any) => {
-          this.spotify!.setAccessToken(data.body['access_token']);
-          logger.info('Spotify API initialized successfully');
-        },
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (err: any) => {
-          logger.error('Spotify API initialization failed:', err);
-        }
-      );
-    } else {
-      logger.warn('Spotify credentials not provided - Spotify features disabled');
-    }
+    this.client.on('voiceStateUpdate', (oldState, newState) => this.handleVoiceStateUpdate(oldState, newState));
   }
 
   public async joinChannel(voiceChannel: VoiceChannel, textChannel?: TextChannel): Promise<boolean> {
+    let connection: VoiceConnection | undefined;
+
     try {
-      const connection = joinVoiceChannel({
+      connection = joinVoiceChannel({
         channelId: voiceChannel.id,
         guildId: voiceChannel.guild.id,
         adapterCreator: voiceChannel.guild.voiceAdapterCreator,
@@ -66,6 +144,9 @@ export class MusicManager {
 
       const player = createAudioPlayer();
 
+      // Starting fresh in this guild supersedes any session saved before a restart
+      this.pendingSessions.delete(voiceChannel.guild.id);
+
       // Wait for connection to be ready
       await entersState(connection, VoiceConnectionStatus.Ready, 30_000);
 
@@ -75,9 +156,15 @@ export class MusicManager {
         connection,
         player,
         voiceChannel,
-        textChannel
+        textChannel,
+        startOffset: 0,
+        playbackSpeed: 1,
+        reconnectAttempts: 0,
+        streamFailures: 0
       });
 
+      this.watchConnection(voiceChannel.guild.id, connection);
+
       // Initialize queue if it doesn't exist
       if (!this.queues.has(voiceChannel.guild.id)) {
         this.queues.set(voiceChannel.guild.id, {
@@ -85,135 +172,205 @@ export class MusicManager {
           currentTrack: null,
           isPlaying: false,
           isPaused: false,
-          volume: 100,
+          volume: this.getSettings(voiceChannel.guild.id).defaultVolume,
           loop: 'none',
-          shuffle: false
+          shuffle: false,
+          position: 0,
+          history: [],
+          filters: createDefaultFilters(),
+          autoplay: false
         });
       }
 
       // Set up player event listeners
+      player.on('error', (error) => {
+        // The player goes Idle right after this, where the track is retried rather than skipped
+        const track = this.queues.get(voiceChannel.guild.id)?.currentTrack;
+        logger.error(`Audio player error${track ? ` while playing ${track.title}` : ''}:`, error);
+
+        const guildConnection = this.connections.get(voiceChannel.guild.id);
+        if (guildConnection && track) {
+          guildConnection.streamError = error;
+        }
+      });
+
       player.on(AudioPlayerStatus.Playing, () => {
-        const queue = this.queues.get(voiceChannel.guild.id)!;
+        const queue = this.queues.get(voiceChannel.guild.id);
+        if (!queue) return;
         queue.isPlaying = true;
         queue.isPaused = false;
         this.queues.set(voiceChannel.guild.id, queue);
+        this.notifyQueueChanged(voiceChannel.guild.id);
       });
 
       player.on(AudioPlayerStatus.Paused, () => {
-        const queue = this.queues.get(voiceChannel.guild.id)!;
+        const queue = this.queues.get(voiceChannel.guild.id);
+        if (!queue) return;
         queue.isPaused = true;
         this.queues.set(voiceChannel.guild.id, queue);
+        this.notifyQueueChanged(voiceChannel.guild.id);
       });
 
       player.on(AudioPlayerStatus.Idle, () => {
-        const queue = this.queues.get(voiceChannel.guild.id)!;
+        const queue = this.queues.get(voiceChannel.guild.id);
+        if (!queue) return;
         queue.isPlaying = false;
         queue.isPaused = false;
         this.queues.set(voiceChannel.guild.id, queue);
+
+        const guildConnection = this.connections.get(voiceChannel.guild.id);
+        if (guildConnection) {
+          const streamError = guildConnection.streamError;
+          guildConnection.streamError = undefined;
+
+          // The stream broke while the voice connection was down; resume it once reconnected
+          if (guildConnection.connection.state.status !== VoiceConnectionStatus.Ready && queue.currentTrack) {
+            guildConnection.resumePosition = this.getPlaybackPosition(guildConnection);
+            guildConnection.resource = undefined;
+            return;
+          }
+
+          if (streamError && queue.currentTrack) {
+            const position = this.getPlaybackPosition(guildConnection);
+            guildConnection.resource = undefined;
+            this.recoverStream(voiceChannel.guild.id, queue.currentTrack, position, streamError);
+            return;
+          }
+          guildConnection.resource = undefined;
+        }
+
+        if (queue.currentTrack) {
+          this.emit('trackEnd', voiceChannel.guild.id, queue.currentTrack);
+        }
         
         // Auto-play next track
         this.playNext(voiceChannel.guild.id);
       });
 
+      // Leave again if nothing gets queued or nobody is listening
+      this.startIdleTimer(voiceChannel.guild.id);
+      this.checkListeners(voiceChannel.guild.id);
+
       logger.info(`Joined voice channel ${voiceChannel.name} in guild ${voiceChannel.guild.name}`);
+      this.emit('connectionChanged', voiceChannel.guild.id, true);
       return true;
     } catch (error) {
       logger.error('Failed to join voice channel:', error);
+      if (connection && connection.state.status !== VoiceConnectionStatus.Destroyed) {
+        connection.destroy();
+      }
       return false;
     }
   }
 
-  public async addTrack(guildId: string, query: string, requester: { id: string; username: string; avatar?: string }): Promise<Track | null> {
-    try {
-      let track: Track;
+  private watchConnection(guildId: string, connection: VoiceConnection): void {
+    connection.on(VoiceConnectionStatus.Disconnected, async (_, newState) => {
+      const guildConnection = this.connections.get(guildId);
+      if (guildConnection?.connection !== connection) return;
 
-      if (this.isYouTubeUrl(query)) {
-        track = await this.getYouTubeTrack(query, requester);
-      } else if (this.isSpotifyUrl(query)) {
-        track = await this.getSpotifyTrack(query, requester);
-      } else {
-        // Search YouTube
-        track = await this.searchYouTube(query, requester);
+      if (newState.reason === VoiceConnectionDisconnectReason.WebSocketClose && newState.closeCode === 4014) {
+        // 4014 means the bot was moved to another channel (it reconnects by itself) or kicked
+        try {
+          await entersState(connection, VoiceConnectionStatus.Connecting, 5_000);
+        } catch {
+          this.autoDisconnect(guildId, 'kicked');
+        }
+        return;
       }
 
+      this.reconnect(guildId, connection);
+    });
+
+    connection.on(VoiceConnectionStatus.Ready, () => {
+      const guildConnection = this.connections.get(guildId);
+      if (guildConnection?.connection !== connection) return;
+
+      if (guildConnection.reconnectAttempts > 0) {
+        logger.info(`Voice connection in guild ${guildId} recovered`);
+      }
+      guildConnection.reconnectAttempts = 0;
+
+      // Pick the current track back up if its stream ended during the outage
+      if (guildConnection.resumePosition !== undefined) {
+        const position = guildConnection.resumePosition;
+        guildConnection.resumePosition = undefined;
+        this.play(guildId, position);
+      }
+    });
+
+    // Covers destruction from outside disconnect(), e.g. the adapter going away with the guild
+    connection.on(VoiceConnectionStatus.Destroyed, () => {
+      if (this.connections.get(guildId)?.connection === connection) {
+        this.autoDisconnect(guildId, 'connection-lost');
+      }
+    });
+  }
+
+  public async addTrack(guildId: string, query: string, requester: Track['requester']): Promise<AddTrackResult | null> {
+    try {
+      const result = await this.resolveTracks(query, requester);
+
       const queue = this.queues.get(guildId);
       if (queue) {
-        queue.tracks.push(track);
+        this.endAutoplay(queue);
+        queue.tracks.push(...result.tracks);
         this.queues.set(guildId, queue);
 
         // If nothing is playing, start playing
         if (!queue.isPlaying && !queue.currentTrack) {
           this.playNext(guildId);
         }
+        this.notifyQueueChanged(guildId);
+        this.saveState();
       }
 
-      return track;
+      return result;
     } catch (error) {
       logger.error('Failed to add track:', error);
       return null;
     }
   }
 
-  private async getYouTubeTrack(url: string, requester: { id: string; username: string; avatar?: string }): Promise<Track> {
-    const info = await search(url, { limit: 1 });
-    if (!info.length) throw new Error('No video found');
+  // Entries go through addTrack one at a time so each is re-checked and freshly attributed
+  public async addPlaylist(guildId: string, playlist: Playlist, requester: Track['requester']): Promise<AddTrackResult> {
+    const tracks: Track[] = [];
+    let skipped = 0;
 
-    const video = info[0];
-    return {
-      id: video.id!,
-      title: video.title!,
-      duration: video.durationInSec || 0,
-      thumbnail: video.thumbnails?.[0]?.url,
-      url: video.url,
-      requester,
-      source: 'youtube'
-    };
+    for (const entry of playlist.tracks) {
+      const result = await this.addTrack(guildId, entry.url, requester);
+      if (result) {
+        tracks.push(...result.tracks);
+      } else {
+        skipped++;
+      }
+    }
+
+    return { tracks, playlistName: playlist.name, skipped };
   }
 
-  private async getSpotifyTrack(url: string, requester: { id: string; username: string; avatar?: string }): Promise<Track> {
-    if (!this.spotify) {
-      throw new Error('Spotify not configured');
-    }
+  // Turns a link or search query into tracks without queueing them
+  public async resolveTracks(query: string, requester: Track['requester']): Promise<AddTrackResult> {
+    const result = await this.sources.resolve(query, requester);
 
-    const trackId = this.extractSpotifyTrackId(url);
-    if (!trackId) throw new Error('Invalid Spotify URL');
+    if (!result.tracks.length) throw new Error('No playable tracks found');
+    return result;
+  }
 
-    const track = await this.spotify.getTrack(trackId);
-    const searchQuery = `${track.body.artists[0].name} ${track.body.name}`;
-    
-    // Search for YouTube equivalent
-    const youtubeResults = await search(searchQuery, { limit: 1 });
-    if (!youtubeResults.length) throw new Error('No YouTube equivalent found');
-
-    const video = youtubeResults[0];
-    return {
-      id: video.id!,
-      title: `${track.body.artists[0].name} - ${track.body.name}`,
-      duration: Math.floor(track.body.duration_ms / 1000),
-      thumbnail: track.body.album.images[0]?.url,
-      url: video.url,
-      requester,
-      source: 'spotify'
-    };
+  public searchTracks(query: string, limit: number): Promise<SearchResult[]> {
+    return this.sources.searchTracks(query, limit);
   }
 
-  private async searchYouTube(query: string, requester: { id: string; username: string; avatar?: string }): Promise<Track> {
-    const results = await search(query, { limit: 1 });
-    if (!results.length) throw new Error('No results found');
+  // Audio files and the music library are decoded by FFmpeg, so they can't be played without it
+  public isMissingFFmpeg(query: string): boolean {
+    return this.sources.isMissingFFmpeg(query);
+  }
 
-    const video = results[0];
-    return {
-      id: video.id!,
-      title: video.title!,
-      duration: video.durationInSec || 0,
-      thumbnail: video.thumbnails?.[0]?.url,
-      url: video.url,
-      requester,
-      source: 'youtube'
-    };
+  // Paths in the local music library (MUSIC_DIR) matching the query, to be played as "local:<path>"
+  public searchLibrary(query: string, limit: number): Promise<string[]> {
+    return this.sources.searchLibrary(query, limit);
   }
 
-  public async play(guildId: string): Promise<boolean> {
+  public async play(guildId: string, startAt = 0): Promise<boolean> {
     const connection = this.connections.get(guildId);
     const queue = this.queues.get(guildId);
 
@@ -221,18 +378,113 @@ export class MusicManager {
       return false;
     }
 
-    try {
-      const streamInfo = await stream(queue.currentTrack.url, { quality: 2 });
-      const resource = createAudioResource(streamInfo.stream, {
-        inputType: streamInfo.type,
-      });
+    const track = queue.currentTrack;
+    let lastError: unknown;
 
-      connection.player.play(resource);
-      return true;
-    } catch (error) {
-      logger.error('Failed to play track:', error);
-      return false;
+    for (let attempt = 0; attempt <= STREAM_RETRY_ATTEMPTS; attempt++) {
+      try {
+        // Last resort before giving up: look for another upload of the same song
+        if (attempt === STREAM_RETRY_ATTEMPTS && !await this.sources.findAlternative(track)) {
+          break;
+        }
+
+        await this.startStream(connection, queue, track, startAt);
+        // Seeks and reconnects restart the stream part-way through; only a fresh start is a new track
+        if (startAt === 0) {
+          connection.streamFailures = 0;
+          this.emit('trackStart', guildId, track);
+        }
+        return true;
+      } catch (error) {
+        lastError = error;
+        logger.warn(`Failed to play ${track.title} (attempt ${attempt + 1}):`, error);
+
+        if (attempt < STREAM_RETRY_ATTEMPTS - 1) {
+          await new Promise(resolve => setTimeout(resolve, STREAM_RETRY_DELAY_MS * (attempt + 1)));
+        }
+      }
+
+      // Stop retrying if the queue moved on while we were waiting
+      if (this.queues.get(guildId)?.currentTrack !== track) return false;
+    }
+
+    logger.error(`Giving up on ${track.title}:`, lastError);
+    this.skipBrokenTrack(guildId, track, this.describeStreamError(lastError));
+    return false;
+  }
+
+  private async startStream(connection: GuildConnection, queue: Queue, track: Track, startAt: number): Promise<void> {
+    const seek = Math.floor(startAt / 1000);
+    const source = await this.sources.getStream(track, seek);
+
+    // Filters need a decode/re-encode pass through FFmpeg; unfiltered audio goes straight to the player
+    const filterGraph = isFFmpegAvailable() ? buildFilterGraph(queue.filters) : null;
+    const resource = filterGraph
+      ? createAudioResource(createFilteredStream(source.stream, filterGraph, source.type), { inputType: StreamType.Raw, inlineVolume: true })
+      : createAudioResource(source.stream, { inputType: source.type, inlineVolume: true });
+
+    this.clearVolumeRamp(connection);
+    resource.volume?.setVolume(queue.volume / 100);
+    connection.resource = resource;
+    connection.startOffset = seek * 1000;
+    connection.playbackSpeed = filterGraph ? getPlaybackSpeed(queue.filters) : 1;
+
+    connection.player.play(resource);
+    this.clearIdleTimer(connection);
+  }
+
+  // A stream that breaks part-way through is resumed where it stopped, then tried from another upload, then skipped
+  private async recoverStream(guildId: string, track: Track, position: number, error: unknown): Promise<void> {
+    const connection = this.connections.get(guildId);
+    if (!connection) return;
+
+    connection.streamFailures++;
+    const isCurrent = () => this.queues.get(guildId)?.currentTrack === track && this.connections.get(guildId) === connection;
+
+    if (connection.streamFailures <= STREAM_RETRY_ATTEMPTS) {
+      logger.warn(`Stream of ${track.title} broke at ${Math.floor(position / 1000)}s, retrying (attempt ${connection.streamFailures})`);
+      await new Promise(resolve => setTimeout(resolve, STREAM_RETRY_DELAY_MS * connection.streamFailures));
+      if (isCurrent()) this.play(guildId, position);
+      return;
+    }
+
+    if (connection.streamFailures === STREAM_RETRY_ATTEMPTS + 1 && await this.sources.findAlternative(track)) {
+      if (isCurrent()) this.play(guildId, position);
+      return;
     }
+
+    logger.error(`Giving up on ${track.title} after it broke mid-stream:`, error);
+    if (isCurrent()) this.skipBrokenTrack(guildId, track, this.describeStreamError(error));
+  }
+
+  private skipBrokenTrack(guildId: string, track: Track, reason: string): void {
+    const connection = this.connections.get(guildId);
+    const queue = this.queues.get(guildId);
+    if (!connection || !queue || queue.currentTrack !== track) return;
+
+    connection.textChannel?.send({
+      embeds: [{
+        color: 0xff0000,
+        title: '⚠️ Track Skipped',
+        description: `Couldn't play **${track.title}**: ${reason}`
+      }]
+    }).catch(error => logger.error('Failed to send skip notice:', error));
+    this.emit('error', guildId, `Skipped "${track.title}": ${reason}`);
+
+    // Drop the track entirely so neither loop mode brings it back
+    queue.currentTrack = null;
+    this.skipRequests.add(guildId);
+    this.playNext(guildId);
+  }
+
+  private describeStreamError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (/confirm your age|age.restricted|inappropriate/i.test(message)) return 'it is age-restricted.';
+    if (/not available in your country|region/i.test(message)) return 'it is not available in this region.';
+    if (/private|unavailable|removed|terminated|not found|404/i.test(message)) return 'the video is unavailable or has been removed.';
+    if (/No YouTube equivalent/i.test(message)) return 'no matching YouTube upload could be found.';
+    return 'the stream could not be loaded.';
   }
 
   public pause(guildId: string): boolean {
@@ -255,20 +507,69 @@ export class MusicManager {
     const connection = this.connections.get(guildId);
     if (!connection) return false;
 
+    // A manual skip always advances, even when the current track is looping
+    this.skipRequests.add(guildId);
     connection.player.stop();
     return true;
   }
 
+  // Counts a listener's vote to skip the current track; the caller skips once the result has passed
+  public voteSkip(guildId: string, userId: string): SkipVoteResult | null {
+    const connection = this.connections.get(guildId);
+    const track = this.queues.get(guildId)?.currentTrack;
+    if (!connection || !track) return null;
+
+    let vote = this.skipVotes.get(guildId);
+    if (!vote || vote.track !== track) {
+      vote = { track, voters: new Set() };
+      this.skipVotes.set(guildId, vote);
+    }
+    vote.voters.add(userId);
+
+    const result = this.countSkipVotes(connection, vote);
+    if (result.passed) {
+      this.skipVotes.delete(guildId);
+    }
+    return result;
+  }
+
+  public getSkipVote(guildId: string): SkipVoteResult | null {
+    const connection = this.connections.get(guildId);
+    const vote = this.skipVotes.get(guildId);
+    if (!connection || !vote || vote.track !== this.queues.get(guildId)?.currentTrack) return null;
+
+    return this.countSkipVotes(connection, vote);
+  }
+
+  // Only people still in the voice channel count, both as voters and towards the total
+  private countSkipVotes(connection: GuildConnection, vote: SkipVote): SkipVoteResult {
+    const listeners = connection.voiceChannel.members.filter(member => !member.user.bot);
+    const { voteSkipPercent } = this.getSettings(connection.voiceChannel.guild.id);
+    const votes = Array.from(vote.voters).filter(id => listeners.has(id)).length;
+    const required = Math.max(1, Math.ceil((listeners.size * voteSkipPercent) / 100));
+
+    return { track: vote.track, votes, required, passed: votes >= required };
+  }
+
   public stop(guildId: string): boolean {
     const connection = this.connections.get(guildId);
     const queue = this.queues.get(guildId);
 
     if (!connection || !queue) return false;
 
-    connection.player.stop();
+    const stoppedTrack = queue.currentTrack;
     queue.tracks = [];
     queue.currentTrack = null;
+    // Otherwise the radio would pick the next song as soon as the player goes idle
+    queue.autoplay = false;
     this.queues.set(guildId, queue);
+    connection.player.stop();
+    this.startIdleTimer(guildId);
+    if (stoppedTrack) {
+      this.emit('trackEnd', guildId, stoppedTrack);
+    }
+    this.notifyQueueChanged(guildId);
+    this.saveState();
     return true;
   }
 
@@ -287,40 +588,374 @@ export class MusicManager {
     }
 
     this.queues.set(guildId, queue);
+    this.notifyQueueChanged(guildId);
+    this.saveState();
     return true;
   }
 
-  public setVolume(guildId: string, volume: number): boolean {
+  public setLoop(guildId: string, mode?: LoopMode): boolean {
     const queue = this.queues.get(guildId);
     if (!queue) return false;
 
-    queue.volume = Math.max(0, Math.min(100, volume));
+    // Without an explicit mode, cycle none -> track -> queue
+    queue.loop = mode ?? LOOP_MODES[(LOOP_MODES.indexOf(queue.loop) + 1) % LOOP_MODES.length];
     this.queues.set(guildId, queue);
+    this.notifyQueueChanged(guildId);
+    this.saveState();
     return true;
   }
 
+  public setAutoplay(guildId: string, enabled?: boolean): boolean {
+    const queue = this.queues.get(guildId);
+    if (!queue) return false;
+
+    queue.autoplay = enabled ?? !queue.autoplay;
+    if (!queue.autoplay) {
+      queue.tracks = queue.tracks.filter(track => !track.autoplay);
+    }
+    this.queues.set(guildId, queue);
+    this.notifyQueueChanged(guildId);
+    this.saveState();
+
+    // Switching it on after the queue already ran dry starts the radio straight away
+    if (queue.autoplay && !queue.currentTrack && !queue.tracks.length && queue.history.length && this.connections.has(guildId)) {
+      this.playNext(guildId);
+    }
+    return true;
+  }
+
+  // A real request ends radio mode; anything autoplay had lined up makes way for it
+  private endAutoplay(queue: Queue): void {
+    if (!queue.autoplay) return;
+
+    queue.autoplay = false;
+    queue.tracks = queue.tracks.filter(track => !track.autoplay);
+  }
+
+  // Picks a related video for the most recently played tracks that hasn't played lately
+  private async findAutoplayTrack(queue: Queue): Promise<Track | null> {
+    const recent = new Set<string>();
+    for (const track of [queue.currentTrack, ...queue.tracks, ...queue.history.slice(0, AUTOPLAY_REPEAT_WINDOW)]) {
+      if (!track) continue;
+      recent.add(track.id);
+      for (const url of [track.url, track.streamUrl]) {
+        const videoId = url && this.sources.youtube.getVideoId(url);
+        if (videoId) recent.add(videoId);
+      }
+    }
+
+    const requester = {
+      id: this.client.user?.id ?? 'autoplay',
+      username: 'Autoplay',
+      avatar: this.client.user?.displayAvatarURL()
+    };
+
+    for (const seed of queue.history.slice(0, AUTOPLAY_SEED_COUNT)) {
+      // Spotify tracks play from a matching YouTube upload, whose related videos we can use too
+      const seedUrl = [seed.url, seed.streamUrl].find(url => url && this.sources.youtube.getVideoId(url));
+      if (!seedUrl) continue;
+
+      try {
+        const relatedVideos = await this.sources.youtube.getRelatedVideos(seedUrl);
+        const candidates = relatedVideos
+          .filter(url => {
+            const videoId = this.sources.youtube.getVideoId(url);
+            return videoId && !recent.has(videoId);
+          })
+          .slice(0, AUTOPLAY_CANDIDATE_POOL)
+          .sort(() => Math.random() - 0.5);
+
+        for (const url of candidates) {
+          const track = await this.sources.youtube.getTrack(url, requester);
+          if (track.duration > 0 && track.duration <= AUTOPLAY_MAX_DURATION) {
+            logger.info(`Autoplay picked ${track.title} after ${seed.title}`);
+            return { ...track, autoplay: true };
+          }
+        }
+      } catch (error) {
+        logger.warn(`Autoplay couldn't find anything related to ${seed.title}:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  public setVolume(guildId: string, volume: number): boolean {
+    const queue = this.queues.get(guildId);
+    if (!queue || !Number.isFinite(volume)) return false;
+
+    const { maxVolume } = this.getSettings(guildId);
+    queue.volume = Math.max(0, Math.min(maxVolume, Math.round(volume)));
+    this.queues.set(guildId, queue);
+
+    const connection = this.connections.get(guildId);
+    if (connection) {
+      this.rampVolume(connection, queue.volume / 100);
+    }
+    this.notifyQueueChanged(guildId);
+    this.saveState();
+    return true;
+  }
+
+  // Restarts the current track at the same spot so the new filters are heard straight away
+  public async setFilters(guildId: string, filters: Partial<AudioFilters>): Promise<boolean> {
+    const queue = this.queues.get(guildId);
+    if (!queue) return false;
+
+    const sanitized = sanitizeFilters(filters);
+    if (hasActiveFilters(sanitized) && !isFFmpegAvailable()) return false;
+
+    queue.filters = sanitized;
+    this.saveState();
+
+    const connection = this.connections.get(guildId);
+    if (connection && queue.currentTrack && queue.isPlaying) {
+      const wasPaused = queue.isPaused;
+      if (await this.play(guildId, this.getPlaybackPosition(connection)) && wasPaused) {
+        connection.player.pause();
+      }
+    }
+
+    this.notifyQueueChanged(guildId);
+    return true;
+  }
+
+  // Fades the live resource to the target volume instead of jumping straight to it
+  private rampVolume(connection: GuildConnection, target: number): void {
+    this.clearVolumeRamp(connection);
+
+    const transformer = connection.resource?.volume;
+    if (!transformer) return;
+
+    const start = transformer.volume;
+    let step = 0;
+
+    connection.volumeRamp = setInterval(() => {
+      step++;
+      transformer.setVolume(start + ((target - start) * step) / VOLUME_RAMP_STEPS);
+
+      if (step >= VOLUME_RAMP_STEPS) {
+        this.clearVolumeRamp(connection);
+      }
+    }, VOLUME_RAMP_DURATION_MS / VOLUME_RAMP_STEPS);
+  }
+
+  private clearVolumeRamp(connection: GuildConnection): void {
+    if (connection.volumeRamp) {
+      clearInterval(connection.volumeRamp);
+      connection.volumeRamp = undefined;
+    }
+  }
+
+  public getSettings(guildId: string): GuildSettings {
+    const maxVolume = this.getEnvPercent('MAX_VOLUME', 100);
+    const defaults: GuildSettings = {
+      defaultVolume: Math.min(maxVolume, this.getEnvPercent('DEFAULT_VOLUME', 100)),
+      maxVolume,
+      voteSkipPercent: Math.max(1, this.getEnvPercent('VOTE_SKIP_PERCENT', 50))
+    };
+
+    // Settings saved by older versions may be missing newer fields
+    return { ...defaults, ...this.settings.get(guildId) };
+  }
+
+  public updateSettings(guildId: string, changes: Partial<GuildSettings>): GuildSettings {
+    const settings = { ...this.getSettings(guildId), ...changes };
+    settings.maxVolume = Math.max(1, Math.min(100, Math.round(settings.maxVolume)));
+    settings.defaultVolume = Math.max(0, Math.min(settings.maxVolume, Math.round(settings.defaultVolume)));
+    settings.voteSkipPercent = Math.max(1, Math.min(100, Math.round(settings.voteSkipPercent)));
+    this.settings.set(guildId, settings);
+    this.saveState();
+
+    // Pull the live volume down if it is now above the new ceiling
+    const queue = this.queues.get(guildId);
+    if (queue && queue.volume > settings.maxVolume) {
+      this.setVolume(guildId, settings.maxVolume);
+    }
+
+    return settings;
+  }
+
+  private getEnvPercent(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isNaN(value) ? fallback : Math.max(0, Math.min(100, value));
+  }
+
   public removeTrack(guildId: string, index: number): boolean {
     const queue = this.queues.get(guildId);
-    if (!queue || index < 0 || index >= queue.tracks.length) return false;
+    if (!queue || !this.isQueueIndex(queue, index)) return false;
 
     queue.tracks.splice(index, 1);
     this.queues.set(guildId, queue);
+    this.notifyQueueChanged(guildId);
+    this.saveState();
     return true;
   }
 
+  public moveTrack(guildId: string, from: number, to: number): boolean {
+    const queue = this.queues.get(guildId);
+    if (!queue || !this.isQueueIndex(queue, from) || !this.isQueueIndex(queue, to)) return false;
+
+    const [track] = queue.tracks.splice(from, 1);
+    queue.tracks.splice(to, 0, track);
+    this.queues.set(guildId, queue);
+    this.notifyQueueChanged(guildId);
+    this.saveState();
+    return true;
+  }
+
+  public skipTo(guildId: string, index: number): boolean {
+    const connection = this.connections.get(guildId);
+    const queue = this.queues.get(guildId);
+    if (!connection || !queue || !this.isQueueIndex(queue, index)) return false;
+
+    const skippedTracks = queue.tracks.splice(0, index);
+
+    if (queue.loop === 'queue') {
+      // Keep the loop order intact: the current track and everything jumped over go to the back
+      if (queue.currentTrack) queue.tracks.push(queue.currentTrack);
+      queue.tracks.push(...skippedTracks);
+      queue.currentTrack = null;
+    }
+
+    this.queues.set(guildId, queue);
+    this.notifyQueueChanged(guildId);
+    this.saveState();
+
+    if (connection.player.state.status === AudioPlayerStatus.Idle) {
+      this.playNext(guildId);
+      return true;
+    }
+    return this.skip(guildId);
+  }
+
+  // Replays the most recently finished track, putting the current one back at the front of the queue
+  public async previous(guildId: string): Promise<boolean> {
+    const queue = this.queues.get(guildId);
+    if (!queue || !this.connections.has(guildId) || queue.history.length === 0) return false;
+
+    const [track] = queue.history.splice(0, 1);
+    const current = queue.currentTrack;
+    if (current) {
+      queue.tracks.unshift(current);
+    }
+    queue.currentTrack = track;
+    this.queues.set(guildId, queue);
+
+    if (current) {
+      this.emit('trackEnd', guildId, current);
+    }
+    this.notifyQueueChanged(guildId);
+    this.saveState();
+
+    return this.play(guildId);
+  }
+
+  public requeueFromHistory(guildId: string, index: number, requester: Track['requester']): Track | null {
+    const queue = this.queues.get(guildId);
+    if (!queue || !Number.isInteger(index) || index < 0 || index >= queue.history.length) return null;
+
+    const track: Track = { ...queue.history[index], requester };
+    delete track.autoplay;
+    this.endAutoplay(queue);
+    queue.tracks.push(track);
+    this.queues.set(guildId, queue);
+
+    if (!queue.isPlaying && !queue.currentTrack) {
+      this.playNext(guildId);
+    }
+    this.notifyQueueChanged(guildId);
+    this.saveState();
+    return track;
+  }
+
+  private addToHistory(queue: Queue, track: Track): void {
+    queue.history.unshift(track);
+    if (queue.history.length > HISTORY_LIMIT) {
+      queue.history.length = HISTORY_LIMIT;
+    }
+  }
+
+  private isQueueIndex(queue: Queue, index: number): boolean {
+    return Number.isInteger(index) && index >= 0 && index < queue.tracks.length;
+  }
+
   private async playNext(guildId: string): Promise<void> {
     const queue = this.queues.get(guildId);
-    if (!queue || queue.tracks.length === 0) return;
+    const skipped = this.skipRequests.delete(guildId);
+    this.skipVotes.delete(guildId);
+    if (!queue) return;
+
+    const finishedTrack = queue.currentTrack;
+    if (finishedTrack) {
+      if (queue.loop === 'track' && !skipped) {
+        await this.play(guildId);
+        return;
+      }
+
+      if (queue.loop === 'queue') {
+        queue.tracks.push(finishedTrack);
+      }
+      this.addToHistory(queue, finishedTrack);
+    }
+
+    if (queue.tracks.length === 0 && queue.autoplay) {
+      const related = await this.findAutoplayTrack(queue);
+      // Someone may have queued a request (ending autoplay) while we were looking
+      if (related && queue.autoplay && queue.tracks.length === 0) {
+        queue.tracks.push(related);
+      }
+    }
+
+    if (queue.tracks.length === 0) {
+      queue.currentTrack = null;
+      this.queues.set(guildId, queue);
+      this.startIdleTimer(guildId);
+      this.notifyQueueChanged(guildId);
+      this.saveState();
+      return;
+    }
 
     const nextTrack = queue.tracks.shift()!;
     queue.currentTrack = nextTrack;
     this.queues.set(guildId, queue);
+    this.notifyQueueChanged(guildId);
+    this.saveState();
 
     await this.play(guildId);
   }
 
   public getQueue(guildId: string): Queue | null {
-    return this.queues.get(guildId) || null;
+    const queue = this.queues.get(guildId);
+    if (!queue) return null;
+
+    queue.position = this.getPosition(guildId);
+    return queue;
+  }
+
+  // Seconds elapsed in the current track
+  public getPosition(guildId: string): number {
+    const connection = this.connections.get(guildId);
+    return connection ? Math.floor(this.getPlaybackPosition(connection) / 1000) : 0;
+  }
+
+  public async seek(guildId: string, seconds: number): Promise<boolean> {
+    const queue = this.queues.get(guildId);
+    if (!queue?.currentTrack || !this.connections.has(guildId) || !Number.isFinite(seconds)) return false;
+
+    const duration = queue.currentTrack.duration;
+    const target = Math.max(0, duration > 0 ? Math.min(seconds, duration - 1) : seconds);
+
+    const wasPaused = queue.isPaused;
+    const success = await this.play(guildId, target * 1000);
+    if (success) {
+      // Restarting the stream starts playback, so a paused track has to be paused again
+      if (wasPaused) {
+        this.connections.get(guildId)?.player.pause();
+      }
+      this.notifyQueueChanged(guildId);
+    }
+    return success;
   }
 
   public getConnection(guildId: string): GuildConnection | null {
@@ -331,23 +966,193 @@ export class MusicManager {
     return this.connections.size;
   }
 
+  public getConnectedGuildIds(): string[] {
+    return Array.from(this.connections.keys());
+  }
+
   public getTotalTracks(): number {
     return Array.from(this.queues.values()).reduce((total, queue) => total + queue.tracks.length, 0);
   }
 
-  public disconnect(guildId: string): boolean {
+  public disconnect(guildId: string, reason?: DisconnectReason): boolean {
     const connection = this.connections.get(guildId);
     if (!connection) return false;
 
-    connection.connection.destroy();
+    this.clearVolumeRamp(connection);
+    this.clearIdleTimer(connection);
+    this.clearEmptyChannelTimer(connection);
+    // Forget the connection first so the Destroyed listener doesn't treat this as unexpected
     this.connections.delete(guildId);
+    if (connection.connection.state.status !== VoiceConnectionStatus.Destroyed) {
+      connection.connection.destroy();
+    }
     this.queues.delete(guildId);
+    this.skipRequests.delete(guildId);
+    this.skipVotes.delete(guildId);
+    connection.player.stop(true);
+    this.saveState();
+    this.emit('connectionChanged', guildId, false, reason);
     return true;
   }
 
+  private startIdleTimer(guildId: string): void {
+    const connection = this.connections.get(guildId);
+    const timeout = this.getTimeoutMinutes('IDLE_TIMEOUT_MINUTES', 5) * 60_000;
+    if (!connection || timeout <= 0) return;
+
+    this.clearIdleTimer(connection);
+    connection.idleTimer = setTimeout(() => this.autoDisconnect(guildId, 'idle'), timeout);
+  }
+
+  private clearIdleTimer(connection: GuildConnection): void {
+    if (connection.idleTimer) {
+      clearTimeout(connection.idleTimer);
+      connection.idleTimer = undefined;
+    }
+  }
+
+  private clearEmptyChannelTimer(connection: GuildConnection): void {
+    if (connection.emptyChannelTimer) {
+      clearTimeout(connection.emptyChannelTimer);
+      connection.emptyChannelTimer = undefined;
+    }
+  }
+
+  private handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): void {
+    const guildId = newState.guild.id;
+    const connection = this.connections.get(guildId);
+    if (!connection) return;
+
+    // Follow the bot if someone drags it into another channel
+    if (newState.id === this.client.user?.id && newState.channel && newState.channelId !== connection.voiceChannel.id) {
+      logger.info(`Moved to voice channel ${newState.channel.name} in guild ${newState.guild.name}`);
+      connection.voiceChannel = newState.channel as VoiceChannel;
+      this.clearEmptyChannelTimer(connection);
+      this.checkListeners(guildId);
+      return;
+    }
+
+    // Only joins and leaves of the bot's own channel matter
+    const channelId = connection.voiceChannel.id;
+    if (oldState.channelId !== channelId && newState.channelId !== channelId) return;
+
+    this.checkListeners(guildId);
+  }
+
+  private checkListeners(guildId: string): void {
+    const connection = this.connections.get(guildId);
+    if (!connection) return;
+
+    const listeners = connection.voiceChannel.members.filter(member => !member.user.bot).size;
+
+    if (listeners === 0 && !connection.emptyChannelTimer) {
+      const timeout = this.getTimeoutMinutes('EMPTY_CHANNEL_TIMEOUT_MINUTES', 2) * 60_000;
+      if (timeout <= 0) return;
+
+      connection.emptyChannelTimer = setTimeout(() => {
+        connection.emptyChannelTimer = undefined;
+
+        if (process.env.EMPTY_CHANNEL_ACTION === 'pause') {
+          const queue = this.queues.get(guildId);
+          if (queue?.isPlaying && !queue.isPaused && this.pause(guildId)) {
+            connection.pausedForEmptyChannel = true;
+            logger.info(`Paused playback in guild ${guildId}: voice channel is empty`);
+          }
+        } else {
+          this.autoDisconnect(guildId, 'empty-channel');
+        }
+      }, timeout);
+    } else if (listeners > 0) {
+      this.clearEmptyChannelTimer(connection);
+
+      if (connection.pausedForEmptyChannel) {
+        connection.pausedForEmptyChannel = false;
+        this.resume(guildId);
+        logger.info(`Resumed playback in guild ${guildId}: a listener rejoined`);
+      }
+    }
+  }
+
+  // Rejoins with exponential backoff until the connection is Ready again; a rejoin that
+  // never gets there counts as a failed attempt, so a stuck connection still gives up
+  private async reconnect(guildId: string, connection: VoiceConnection): Promise<void> {
+    const guildConnection = this.connections.get(guildId);
+    if (guildConnection?.connection !== connection || guildConnection.reconnecting) return;
+
+    const isCurrent = () =>
+      this.connections.get(guildId)?.connection === connection &&
+      connection.state.status !== VoiceConnectionStatus.Destroyed;
+
+    guildConnection.reconnecting = true;
+    try {
+      while (guildConnection.reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+        // Exponential backoff: 1s, 2s, 4s... capped
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** guildConnection.reconnectAttempts);
+        guildConnection.reconnectAttempts++;
+        logger.warn(`Voice connection lost in guild ${guildId}, reconnecting in ${delay}ms (attempt ${guildConnection.reconnectAttempts})`);
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+        if (!isCurrent() || connection.state.status === VoiceConnectionStatus.Ready) return;
+
+        connection.rejoin();
+        try {
+          await entersState(connection, VoiceConnectionStatus.Ready, RECONNECT_READY_TIMEOUT_MS);
+          return;
+        } catch {
+          if (!isCurrent()) return;
+          logger.warn(`Reconnect attempt ${guildConnection.reconnectAttempts} in guild ${guildId} did not become ready`);
+        }
+      }
+
+      logger.warn(`Giving up on voice connection in guild ${guildId} after ${MAX_RECONNECT_ATTEMPTS} attempts`);
+      this.autoDisconnect(guildId, 'connection-lost');
+    } finally {
+      guildConnection.reconnecting = false;
+    }
+  }
+
+  private autoDisconnect(guildId: string, reason: DisconnectReason): void {
+    const connection = this.connections.get(guildId);
+    if (!connection) return;
+
+    const messages: Record<DisconnectReason, string> = {
+      'idle': 'Nothing has been playing for a while, so I left the voice channel.',
+      'empty-channel': 'Everyone left the voice channel, so I left too.',
+      'kicked': 'I was disconnected from the voice channel.',
+      'connection-lost': 'I lost my connection to the voice channel and couldn\'t get it back.'
+    };
+    const message = messages[reason];
+
+    connection.textChannel?.send({
+      embeds: [{
+        color: 0x808080,
+        title: '👋 Disconnected',
+        description: `${message}\nUse \`/play\` to bring me back.`
+      }]
+    }).catch(error => logger.error('Failed to send disconnect notice:', error));
+
+    logger.info(`Auto-disconnecting from guild ${guildId} (${reason})`);
+    this.disconnect(guildId, reason);
+  }
+
+  private notifyQueueChanged(guildId: string): void {
+    const queue = this.getQueue(guildId);
+    if (queue) {
+      this.emit('queueChanged', guildId, queue);
+    }
+  }
+
+  private getTimeoutMinutes(name: string, fallback: number): number {
+    const value = parseFloat(process.env[name] || '');
+    return Number.isNaN(value) ? fallback : value;
+  }
+
   public cleanup(guildId?: string): void {
     if (guildId) {
+      this.pendingSessions.delete(guildId);
+      this.settings.delete(guildId);
       this.disconnect(guildId);
+      this.saveState();
     } else {
       // Cleanup all connections
       for (const [guildId] of this.connections) {
@@ -356,16 +1161,127 @@ export class MusicManager {
     }
   }
 
-  private isYouTubeUrl(url: string): boolean {
-    return /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)/.test(url);
+  public async loadState(): Promise<void> {
+    const state = await this.store.load();
+
+    for (const [guildId, settings] of Object.entries(state.settings)) {
+      this.settings.set(guildId, settings);
+    }
+
+    for (const [guildId, session] of Object.entries(state.sessions)) {
+      if (Date.now() - session.savedAt < SESSION_MAX_AGE_MS && this.client.guilds.cache.has(guildId)) {
+        this.pendingSessions.set(guildId, session);
+      }
+    }
+
+    this.stateLoaded = true;
+    logger.info(`Loaded saved state: ${this.pendingSessions.size} session(s) to restore`);
+
+    // Keep saved playback positions reasonably fresh in case of a crash
+    setInterval(() => {
+      if (this.connections.size > 0) this.saveState();
+    }, STATE_SAVE_INTERVAL_MS).unref();
+  }
+
+  public getPendingSessions(): Map<string, SavedSession> {
+    return this.pendingSessions;
+  }
+
+  public async restoreSession(guildId: string): Promise<boolean> {
+    const session = this.pendingSessions.get(guildId);
+    if (!session) return false;
+    this.pendingSessions.delete(guildId);
+    this.saveState();
+
+    const guild = this.client.guilds.cache.get(guildId);
+    const voiceChannel = guild?.channels.cache.get(session.voiceChannelId);
+    if (!guild || !voiceChannel?.isVoiceBased()) return false;
+
+    const textChannel = session.textChannelId ? guild.channels.cache.get(session.textChannelId) : undefined;
+    const joined = await this.joinChannel(voiceChannel as VoiceChannel, textChannel as TextChannel | undefined);
+    if (!joined) return false;
+
+    // Uploads played from Discord links that ran out while the bot was down can't be played any more
+    const isPlayable = (track: Track) => !isExpiredAttachment(track.url);
+    const currentTrack = session.queue.currentTrack && isPlayable(session.queue.currentTrack) ? session.queue.currentTrack : null;
+    const tracks = session.queue.tracks.filter(isPlayable);
+    const expired = session.queue.tracks.length - tracks.length + (session.queue.currentTrack && !currentTrack ? 1 : 0);
+    if (expired) {
+      logger.info(`Dropped ${expired} expired upload(s) from the saved session in guild ${guild.name}`);
+      this.connections.get(guildId)?.textChannel?.send({
+        embeds: [{
+          color: 0xff9900,
+          title: '⚠️ Uploads Expired',
+          description: `${expired} uploaded file(s) were removed from the queue because their Discord links have expired.`
+        }]
+      }).catch(error => logger.error('Failed to send expired uploads notice:', error));
+    }
+
+    // Sessions saved by older versions lack the newer queue fields
+    this.queues.set(guildId, {
+      ...session.queue,
+      currentTrack,
+      tracks,
+      history: (session.queue.history ?? []).filter(isPlayable),
+      filters: session.queue.filters ?? createDefaultFilters(),
+      autoplay: session.queue.autoplay ?? false,
+      isPlaying: false,
+      isPaused: false
+    });
+    this.notifyQueueChanged(guildId);
+
+    if (currentTrack) {
+      await this.play(guildId, session.position);
+    } else {
+      await this.playNext(guildId);
+    }
+
+    this.saveState();
+    logger.info(`Restored saved session in guild ${guild.name}`);
+    return true;
+  }
+
+  public dismissSession(guildId: string): boolean {
+    const dismissed = this.pendingSessions.delete(guildId);
+    this.saveState();
+    return dismissed;
   }
 
-  private isSpotifyUrl(url: string): boolean {
-    return /^https?:\/\/open\.spotify\.com\/track\//.test(url);
+  // Flushes state before connections are torn down so the next start can pick up where this one left off
+  public async shutdown(): Promise<void> {
+    if (this.stateLoaded) {
+      await this.store.flush(this.snapshotState());
+      this.stateLoaded = false;
+    }
+    this.cleanup();
   }
 
-  private extractSpotifyTrackId(url: string): string | null {
-    const match = url.match(/track\/([a-zA-Z0-9]+)/);
-    return match ? match[1] : null;
+  private saveState(): void {
+    // Never overwrite the saved file before it has been read back in
+    if (!this.stateLoaded) return;
+    this.store.save(this.snapshotState());
   }
-}
\ No newline at end of file
+
+  private snapshotState(): PersistedState {
+    const sessions: Record<string, SavedSession> = Object.fromEntries(this.pendingSessions);
+
+    for (const [guildId, connection] of this.connections) {
+      const queue = this.queues.get(guildId);
+      if (!queue || (!queue.currentTrack && queue.tracks.length === 0)) continue;
+
+      sessions[guildId] = {
+        voiceChannelId: connection.voiceChannel.id,
+        textChannelId: connection.textChannel?.id,
+        queue,
+        position: this.getPlaybackPosition(connection),
+        savedAt: Date.now()
+      };
+    }
+
+    return { sessions, settings: Object.fromEntries(this.settings) };
+  }
+
+  private getPlaybackPosition(connection: GuildConnection): number {
+    return connection.resource ? connection.startOffset + connection.resource.playbackDuration * connection.playbackSpeed : 0;
+  }
+}
@@ -0,0 +1,139 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { JsonStore } from '../storage/JsonStore.js';
+import { Playlist, PlaylistScope, PlaylistTrack, Track } from '../../shared/types.js';
+import { isDiscordAttachment } from './sources/attachments.js';
+
+const MAX_PLAYLIST_LENGTH = 500;
+const MAX_NAME_LENGTH = 50;
+
+interface PersistedPlaylists {
+  playlists: Record<string, Playlist>;
+}
+
+export interface PlaylistManagerEvents {
+  // Fired after any create, edit or delete so listeners can refresh that scope's list
+  playlistsChanged: [scope: PlaylistScope, ownerId: string];
+}
+
+export class PlaylistManager extends EventEmitter<PlaylistManagerEvents> {
+  private playlists: Map<string, Playlist> = new Map();
+  private store = new JsonStore<PersistedPlaylists>('playlists.json', { playlists: {} });
+
+  public async load(): Promise<void> {
+    const { playlists } = await this.store.load();
+
+    for (const playlist of Object.values(playlists)) {
+      this.playlists.set(playlist.id, playlist);
+    }
+
+    logger.info(`Loaded ${this.playlists.size} saved playlist(s)`);
+  }
+
+  public list(scope: PlaylistScope, ownerId: string): Playlist[] {
+    return Array.from(this.playlists.values())
+      .filter(playlist => playlist.scope === scope && playlist.ownerId === ownerId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public get(id: string): Playlist | null {
+    return this.playlists.get(id) || null;
+  }
+
+  public find(scope: PlaylistScope, ownerId: string, name: string): Playlist | null {
+    const wanted = name.trim().toLowerCase();
+    return this.list(scope, ownerId).find(playlist => playlist.name.toLowerCase() === wanted) || null;
+  }
+
+  // Creates the playlist, or replaces the tracks of an existing one with the same name
+  public save(scope: PlaylistScope, ownerId: string, name: string, tracks: Track[], createdBy: Playlist['createdBy']): Playlist | null {
+    const trimmedName = name.trim().slice(0, MAX_NAME_LENGTH);
+    if (!trimmedName) return null;
+
+    const existing = this.find(scope, ownerId, trimmedName);
+    const playlist: Playlist = existing ?? {
+      id: randomUUID(),
+      name: trimmedName,
+      scope,
+      ownerId,
+      createdBy: { id: createdBy.id, username: createdBy.username },
+      tracks: [],
+      updatedAt: Date.now()
+    };
+
+    playlist.tracks = tracks.filter(canSaveTrack).slice(0, MAX_PLAYLIST_LENGTH).map(toPlaylistTrack);
+    this.commit(playlist);
+    return playlist;
+  }
+
+  public addTracks(id: string, tracks: Track[]): Playlist | null {
+    const playlist = this.playlists.get(id);
+    if (!playlist || playlist.tracks.length >= MAX_PLAYLIST_LENGTH) return null;
+
+    playlist.tracks.push(...tracks.filter(canSaveTrack).slice(0, MAX_PLAYLIST_LENGTH - playlist.tracks.length).map(toPlaylistTrack));
+    this.commit(playlist);
+    return playlist;
+  }
+
+  public removeTrack(id: string, index: number): PlaylistTrack | null {
+    const playlist = this.playlists.get(id);
+    if (!playlist || !Number.isInteger(index) || index < 0 || index >= playlist.tracks.length) return null;
+
+    const [removed] = playlist.tracks.splice(index, 1);
+    this.commit(playlist);
+    return removed;
+  }
+
+  public rename(id: string, name: string): Playlist | null {
+    const playlist = this.playlists.get(id);
+    const trimmedName = name.trim().slice(0, MAX_NAME_LENGTH);
+    if (!playlist || !trimmedName) return null;
+
+    // Names are unique within a scope
+    const clash = this.find(playlist.scope, playlist.ownerId, trimmedName);
+    if (clash && clash.id !== id) return null;
+
+    playlist.name = trimmedName;
+    this.commit(playlist);
+    return playlist;
+  }
+
+  public delete(id: string): boolean {
+    const playlist = this.playlists.get(id);
+    if (!playlist) return false;
+
+    this.playlists.delete(id);
+    this.store.save({ playlists: Object.fromEntries(this.playlists) });
+    this.emit('playlistsChanged', playlist.scope, playlist.ownerId);
+    return true;
+  }
+
+  public async shutdown(): Promise<void> {
+    await this.store.flush();
+  }
+
+  private commit(playlist: Playlist): void {
+    playlist.updatedAt = Date.now();
+    this.playlists.set(playlist.id, playlist);
+    this.store.save({ playlists: Object.fromEntries(this.playlists) });
+    this.emit('playlistsChanged', playlist.scope, playlist.ownerId);
+  }
+}
+
+// Uploads are left out: their links expire long before a playlist is played again
+export function canSaveTrack(track: Track): boolean {
+  return !isDiscordAttachment(track.url);
+}
+
+// Only what's needed to find the song again; requesters and resolved stream URLs are per-play details
+function toPlaylistTrack(track: Track): PlaylistTrack {
+  return {
+    id: track.id,
+    title: track.title,
+    duration: track.duration,
+    thumbnail: track.thumbnail,
+    url: track.url,
+    source: track.source
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AudioFilters, FilterPreset } from '../../shared/types.js';
+import { createDefaultFilters } from '../../shared/filters.js';
+import { buildFilterGraph, getPlaybackSpeed, sanitizeFilters } from './filters.js';
+
+function withPresets(...presets: FilterPreset[]): AudioFilters {
+  return { ...createDefaultFilters(), presets };
+}
+
+describe('sanitizeFilters', () => {
+  it('fills in everything that is missing', () => {
+    assert.deepEqual(sanitizeFilters({}), createDefaultFilters());
+  });
+
+  it('drops unknown and repeated presets', () => {
+    const presets = ['bassboost', 'loud', 'bassboost', 'karaoke'] as FilterPreset[];
+    assert.deepEqual(sanitizeFilters({ presets }).presets, ['bassboost', 'karaoke']);
+  });
+
+  it('keeps only the last of two presets that change the speed', () => {
+    assert.deepEqual(sanitizeFilters({ presets: ['nightcore', 'vaporwave'] }).presets, ['vaporwave']);
+  });
+
+  it('rounds and clamps the equalizer gains', () => {
+    const { equalizer } = sanitizeFilters({ equalizer: [3.4, 99, -99, NaN, '6' as unknown as number] });
+    assert.deepEqual(equalizer, [3, 12, -12, 0, 6, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe('buildFilterGraph', () => {
+  it('passes audio through untouched without filters', () => {
+    assert.equal(buildFilterGraph(createDefaultFilters()), null);
+  });
+
+  it('chains presets in order, then the bands that are not flat', () => {
+    const filters = withPresets('bassboost', '8d');
+    filters.equalizer[0] = 4;
+    filters.equalizer[9] = -2;
+
+    assert.equal(
+      buildFilterGraph(filters),
+      'bass=g=10:f=110:w=0.6,apulsator=hz=0.08,' +
+      'equalizer=f=31:width_type=o:width=1:g=4,equalizer=f=16000:width_type=o:width=1:g=-2'
+    );
+  });
+});
+
+describe('getPlaybackSpeed', () => {
+  it('is 1 unless a preset changes the speed', () => {
+    assert.equal(getPlaybackSpeed(createDefaultFilters()), 1);
+    assert.equal(getPlaybackSpeed(withPresets('bassboost', 'karaoke')), 1);
+  });
+
+  it('follows nightcore and vaporwave', () => {
+    assert.equal(getPlaybackSpeed(withPresets('nightcore')), 1.25);
+    assert.equal(getPlaybackSpeed(withPresets('bassboost', 'vaporwave')), 0.8);
+  });
+});
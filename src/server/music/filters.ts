@@ -0,0 +1,121 @@
+import { Readable } from 'stream';
+import { StreamType } from '@discordjs/voice';
+import prism from 'prism-media';
+import { AudioFilters, FilterPreset } from '../../shared/types.js';
+import { EQ_BANDS, EQ_MAX_GAIN, FILTER_PRESETS, createDefaultFilters, enablePreset } from '../../shared/filters.js';
+
+// Discord voice expects 48kHz stereo, which is also what FFmpeg outputs for us
+const SAMPLE_RATE = 48000;
+
+const PRESET_FILTERS: Record<FilterPreset, string> = {
+  bassboost: 'bass=g=10:f=110:w=0.6',
+  nightcore: `aresample=${SAMPLE_RATE},asetrate=${SAMPLE_RATE}*1.25,aresample=${SAMPLE_RATE}`,
+  vaporwave: `aresample=${SAMPLE_RATE},asetrate=${SAMPLE_RATE}*0.8,aresample=${SAMPLE_RATE}`,
+  '8d': 'apulsator=hz=0.08',
+  karaoke: 'stereotools=mlev=0.03',
+  normalize: 'dynaudnorm=g=101'
+};
+
+// How much faster than the source a preset plays, so positions can be mapped back to the track
+const PRESET_SPEEDS: Partial<Record<FilterPreset, number>> = {
+  nightcore: 1.25,
+  vaporwave: 0.8
+};
+
+// Dashboard and command input is untrusted: drop unknown presets and clamp the EQ gains
+export function sanitizeFilters(filters: Partial<AudioFilters>): AudioFilters {
+  const sanitized = createDefaultFilters();
+
+  for (const preset of filters.presets ?? []) {
+    if (FILTER_PRESETS.some(known => known.id === preset) && !sanitized.presets.includes(preset)) {
+      sanitized.presets = enablePreset(sanitized.presets, preset);
+    }
+  }
+
+  EQ_BANDS.forEach((_, index) => {
+    const gain = Number(filters.equalizer?.[index]);
+    sanitized.equalizer[index] = Number.isFinite(gain) ? Math.max(-EQ_MAX_GAIN, Math.min(EQ_MAX_GAIN, Math.round(gain))) : 0;
+  });
+
+  return sanitized;
+}
+
+// The FFmpeg -af argument for these filters, or null when audio can be passed through untouched
+export function buildFilterGraph(filters: AudioFilters): string | null {
+  const chain = filters.presets.map(preset => PRESET_FILTERS[preset]);
+
+  filters.equalizer.forEach((gain, index) => {
+    if (gain !== 0) {
+      chain.push(`equalizer=f=${EQ_BANDS[index]}:width_type=o:width=1:g=${gain}`);
+    }
+  });
+
+  return chain.length ? chain.join(',') : null;
+}
+
+export function getPlaybackSpeed(filters: AudioFilters): number {
+  return filters.presets.reduce((speed, preset) => speed * (PRESET_SPEEDS[preset] ?? 1), 1);
+}
+
+let ffmpegAvailable: boolean | undefined;
+
+// Filters need an FFmpeg binary (on PATH or from ffmpeg-static); plain playback doesn't
+export function isFFmpegAvailable(): boolean {
+  if (ffmpegAvailable === undefined) {
+    try {
+      prism.FFmpeg.getInfo();
+      ffmpegAvailable = true;
+    } catch {
+      ffmpegAvailable = false;
+    }
+  }
+  return ffmpegAvailable;
+}
+
+// Runs the source through FFmpeg and hands back raw 48kHz stereo PCM
+export function createFilteredStream(source: Readable, filterGraph: string, inputType: StreamType): Readable {
+  const transcoder = new prism.FFmpeg({
+    args: [
+      '-analyzeduration', '0',
+      '-loglevel', '0',
+      // Raw PCM has no header, so FFmpeg has to be told what it is
+      ...(inputType === StreamType.Raw ? ['-f', 's16le', '-ar', `${SAMPLE_RATE}`, '-ac', '2'] : []),
+      '-i', '-',
+      '-af', filterGraph,
+      '-f', 's16le',
+      '-ar', `${SAMPLE_RATE}`,
+      '-ac', '2'
+    ]
+  });
+
+  pipeThrough(source, transcoder);
+  return transcoder;
+}
+
+// Decodes a file, URL or stream in any format FFmpeg knows into raw 48kHz stereo PCM, starting seekSeconds in
+export function createPcmStream(input: string | Readable, seekSeconds = 0): Readable {
+  const seek = seekSeconds > 0 ? ['-ss', `${seekSeconds}`] : [];
+  const transcoder = new prism.FFmpeg({
+    args: [
+      '-analyzeduration', '0',
+      '-loglevel', '0',
+      // FFmpeg can jump straight to the position in a file or URL, but has to decode piped input up to it
+      ...(typeof input === 'string' ? ['-nostdin', ...seek, '-i', input] : ['-i', '-', ...seek]),
+      '-f', 's16le',
+      '-ar', `${SAMPLE_RATE}`,
+      '-ac', '2'
+    ]
+  });
+
+  if (typeof input !== 'string') {
+    pipeThrough(input, transcoder);
+  }
+  return transcoder;
+}
+
+function pipeThrough(source: Readable, transcoder: prism.FFmpeg): void {
+  source.on('error', error => transcoder.destroy(error));
+  // The player only destroys the stream it was given; stop downloading the source too
+  transcoder.once('close', () => source.destroy());
+  source.pipe(transcoder);
+}
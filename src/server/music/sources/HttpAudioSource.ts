@@ -0,0 +1,67 @@
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { StreamType } from '@discordjs/voice';
+import { Track } from '../../../shared/types.js';
+import { createPcmStream } from '../filters.js';
+import { applyUrlTags } from './audioTags.js';
+import { fetchPublicUrl } from './publicUrl.js';
+import { AddTrackResult, SourceProvider, SourceStream, getFileTitle, isAudioFile } from './SourceProvider.js';
+
+const STREAM_REQUEST_TIMEOUT_MS = 10_000;
+
+// Links straight to an audio file, e.g. https://example.com/song.mp3 or a Discord attachment; FFmpeg decodes the download
+export class HttpAudioSource implements SourceProvider {
+  public readonly name = 'http';
+  public readonly requiresFFmpeg = true;
+
+  public matches(query: string): boolean {
+    const url = this.parseUrl(query);
+    return !!url && isAudioFile(url.pathname);
+  }
+
+  public async resolve(query: string, requester: Track['requester']): Promise<AddTrackResult> {
+    const url = this.parseUrl(query);
+    if (!url) throw new Error('Invalid URL');
+
+    const track: Track = {
+      id: url.href,
+      title: getFileTitle(decodeURIComponent(url.pathname)),
+      // Unknown unless the tags or headers tell us
+      duration: 0,
+      url: url.href,
+      requester,
+      source: 'http'
+    };
+    return { tracks: [await applyUrlTags(track, url.href)] };
+  }
+
+  public async getStream(track: Track, seekSeconds: number): Promise<SourceStream> {
+    // Only waiting for the response is timed; the download itself runs for as long as the track plays
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(new Error(`Timed out requesting ${track.url}`)), STREAM_REQUEST_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetchPublicUrl(track.url, controller.signal);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+      throw new Error(`Could not download ${track.url} (HTTP ${response.status})`);
+    }
+
+    // FFmpeg gets the checked download rather than the URL, which it would resolve and follow redirects for by itself
+    const body = Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+    return { stream: createPcmStream(body, seekSeconds), type: StreamType.Raw };
+  }
+
+  private parseUrl(query: string): URL | null {
+    try {
+      const url = new URL(query);
+      return ['http:', 'https:'].includes(url.protocol) ? url : null;
+    } catch {
+      return null;
+    }
+  }
+}
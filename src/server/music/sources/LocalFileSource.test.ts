@@ -0,0 +1,136 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { isFFmpegAvailable } from '../filters.js';
+import { LocalFileSource } from './LocalFileSource.js';
+
+const requester = { id: 'user', username: 'User' };
+
+// A silent 8kHz mono WAV file with RIFF INFO title and artist tags
+function createWav(seconds: number, title: string, artist: string): Buffer {
+  const sampleRate = 8000;
+  const tag = (id: string, value: string) => {
+    const text = Buffer.from(`${value}\0`);
+    const padded = Buffer.concat([text, Buffer.alloc(text.length % 2)]);
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 'ascii');
+    header.writeUInt32LE(text.length, 4);
+    return Buffer.concat([header, padded]);
+  };
+  const chunk = (id: string, body: Buffer) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 'ascii');
+    header.writeUInt32LE(body.length, 4);
+    return Buffer.concat([header, body]);
+  };
+
+  const format = Buffer.alloc(16);
+  format.writeUInt16LE(1, 0);
+  format.writeUInt16LE(1, 2);
+  format.writeUInt32LE(sampleRate, 4);
+  format.writeUInt32LE(sampleRate, 8);
+  format.writeUInt16LE(1, 12);
+  format.writeUInt16LE(8, 14);
+
+  const body = Buffer.concat([
+    Buffer.from('WAVE'),
+    chunk('fmt ', format),
+    chunk('LIST', Buffer.concat([Buffer.from('INFO'), tag('INAM', title), tag('IART', artist)])),
+    chunk('data', Buffer.alloc(sampleRate * seconds, 128))
+  ]);
+  return chunk('RIFF', body);
+}
+
+// Listens for 'end' like the voice player does; prism's FFmpeg stream never closes, so async iteration would hang
+function readAll(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', chunk => chunks.push(chunk));
+    stream.once('end', () => resolve(Buffer.concat(chunks)));
+    stream.once('error', reject);
+  });
+}
+
+describe('LocalFileSource', () => {
+  let directory: string;
+  let source: LocalFileSource;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'library-'));
+    await fs.mkdir(path.join(directory, 'music', 'Album'), { recursive: true });
+    await fs.mkdir(path.join(directory, 'music-private'));
+    await fs.writeFile(path.join(directory, 'music', 'Album', '02 Second.mp3'), '');
+    await fs.writeFile(path.join(directory, 'music', 'Album', '10 Tenth.mp3'), '');
+    await fs.writeFile(path.join(directory, 'music', 'Album', 'cover.jpg'), '');
+    await fs.writeFile(path.join(directory, 'music-private', 'secret.mp3'), '');
+    await fs.writeFile(path.join(directory, 'secret.mp3'), '');
+    await fs.writeFile(path.join(directory, 'music', 'tagged.wav'), createWav(2, 'Silence', 'Nobody'));
+    source = new LocalFileSource(path.join(directory, 'music'));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('queues files inside the library', async () => {
+    const { tracks } = await source.resolve('local:Album/02 Second.mp3', requester);
+
+    assert.equal(tracks.length, 1);
+    assert.equal(tracks[0].url, 'local:Album/02 Second.mp3');
+    assert.equal(tracks[0].title, '02 Second');
+  });
+
+  it('queues the audio files of a folder in track order', async () => {
+    const { tracks, playlistName } = await source.resolve('local:Album', requester);
+
+    assert.equal(playlistName, 'Album');
+    assert.deepEqual(tracks.map(track => track.url), ['local:Album/02 Second.mp3', 'local:Album/10 Tenth.mp3']);
+  });
+
+  it('reads the title, artist and duration from the file\'s tags', async () => {
+    const { tracks: [track] } = await source.resolve('local:tagged.wav', requester);
+
+    assert.equal(track.title, 'Nobody - Silence');
+    assert.equal(track.duration, 2);
+    assert.equal(track.source, 'local');
+  });
+
+  it('decodes library files to 48kHz stereo PCM', { skip: !isFFmpegAvailable() && 'FFmpeg is not installed' }, async () => {
+    const { tracks: [track] } = await source.resolve('local:tagged.wav', requester);
+    const { stream } = await source.getStream(track, 1);
+
+    // One second is left after the seek: 48000 samples of two 16-bit channels
+    const pcm = await readAll(stream);
+    assert.ok(Math.abs(pcm.length - 48000 * 4) <= 4096, `${pcm.length} bytes`);
+  });
+
+  it('refuses paths that leave the library', async () => {
+    const outside = [
+      'local:../secret.mp3',
+      'local:Album/../../secret.mp3',
+      'local:../music-private/secret.mp3',
+      `local:${path.join(directory, 'secret.mp3')}`,
+      'local:..'
+    ];
+    for (const query of outside) {
+      await assert.rejects(source.resolve(query, requester), /File not found in the music library/, query);
+    }
+  });
+
+  it('refuses to stream tracks pointing outside the library', async () => {
+    const track = { id: 'x', title: 'x', duration: 0, url: 'local:../secret.mp3', requester, source: 'local' as const };
+    await assert.rejects(source.getStream(track, 0), /File not found in the music library/);
+  });
+
+  it('refuses everything when no library is configured', async () => {
+    await assert.rejects(new LocalFileSource().resolve('local:song.mp3', requester), /not configured/);
+  });
+
+  it('searches library paths by every word of the query', async () => {
+    assert.deepEqual(await source.search('album tenth', 10), ['Album/10 Tenth.mp3']);
+    assert.deepEqual(await source.search('secret', 10), []);
+  });
+});
@@ -0,0 +1,94 @@
+import { readdir, stat } from 'fs/promises';
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+import { StreamType } from '@discordjs/voice';
+import { Track } from '../../../shared/types.js';
+import { createPcmStream } from '../filters.js';
+import { applyFileTags } from './audioTags.js';
+import { AddTrackResult, SourceProvider, SourceStream, getFileTitle, getPlaylistLimit, isAudioFile } from './SourceProvider.js';
+
+export const LOCAL_PREFIX = 'local:';
+// Autocomplete asks on every keystroke, so the library listing is only refreshed this often
+const LISTING_CACHE_MS = 60_000;
+
+// Files in the music library (MUSIC_DIR), requested as "local:Artist/Album/Song.mp3"; a folder queues everything in it
+export class LocalFileSource implements SourceProvider {
+  public readonly name = 'local';
+  public readonly requiresFFmpeg = true;
+  private root?: string;
+  private listing?: { files: string[]; loadedAt: number };
+
+  constructor(root?: string) {
+    this.root = root ? resolve(root) : undefined;
+  }
+
+  public matches(query: string): boolean {
+    return query.startsWith(LOCAL_PREFIX);
+  }
+
+  public async resolve(query: string, requester: Track['requester']): Promise<AddTrackResult> {
+    const path = this.resolvePath(query);
+    const info = await stat(path).catch(() => null);
+    if (!info) throw new Error('File not found in the music library');
+
+    if (info.isFile()) {
+      if (!isAudioFile(path)) throw new Error('Not an audio file');
+      return { tracks: [await this.createTrack(path, requester)] };
+    }
+
+    const files = this.sortFiles((await readdir(path, { recursive: true })).filter(isAudioFile));
+    const tracks: Track[] = [];
+    for (const file of files.slice(0, getPlaylistLimit())) {
+      tracks.push(await this.createTrack(join(path, file), requester));
+    }
+
+    return { tracks, playlistName: relative(this.root!, path) || 'Music Library' };
+  }
+
+  public async getStream(track: Track, seekSeconds: number): Promise<SourceStream> {
+    return { stream: createPcmStream(this.resolvePath(track.url), seekSeconds), type: StreamType.Raw };
+  }
+
+  // Library paths (relative to MUSIC_DIR, with forward slashes) containing every word of the query
+  public async search(query: string, limit: number): Promise<string[]> {
+    if (!this.root) return [];
+
+    if (!this.listing || Date.now() - this.listing.loadedAt > LISTING_CACHE_MS) {
+      const files = (await readdir(this.root, { recursive: true })).filter(isAudioFile);
+      this.listing = { files: this.sortFiles(files).map(file => file.split(sep).join('/')), loadedAt: Date.now() };
+    }
+
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return this.listing.files
+      .filter(file => words.every(word => file.toLowerCase().includes(word)))
+      .slice(0, limit);
+  }
+
+  // Anything outside the library is off limits, however the path is spelled
+  private resolvePath(query: string): string {
+    if (!this.root) throw new Error('Local music library not configured');
+
+    const path = resolve(this.root, query.slice(LOCAL_PREFIX.length).trim());
+    const inLibrary = relative(this.root, path);
+    if (inLibrary === '..' || inLibrary.startsWith(`..${sep}`) || isAbsolute(inLibrary)) {
+      throw new Error('File not found in the music library');
+    }
+    return path;
+  }
+
+  // Track numbers in filenames keep albums in order
+  private sortFiles(files: string[]): string[] {
+    return files.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }
+
+  private createTrack(path: string, requester: Track['requester']): Promise<Track> {
+    const url = `${LOCAL_PREFIX}${relative(this.root!, path).split(sep).join('/')}`;
+    return applyFileTags({
+      id: url,
+      title: getFileTitle(path),
+      duration: 0,
+      url,
+      requester,
+      source: 'local'
+    }, path);
+  }
+}
@@ -0,0 +1,76 @@
+import { soundcloud, stream, getFreeClientID, setToken, SoundCloudTrack } from 'play-dl';
+import { StreamType } from '@discordjs/voice';
+import { Track } from '../../../shared/types.js';
+import { createPcmStream } from '../filters.js';
+import { AddTrackResult, SourceProvider, SourceStream, getPlaylistLimit } from './SourceProvider.js';
+
+export class SoundCloudSource implements SourceProvider {
+  public readonly name = 'soundcloud';
+  // play-dl needs a client ID before its first request; without SOUNDCLOUD_CLIENT_ID we borrow the website's
+  private authorization?: Promise<void>;
+
+  public matches(query: string): boolean {
+    return /^https?:\/\/((www|m)\.)?(soundcloud\.com|on\.soundcloud\.com)\//.test(query);
+  }
+
+  public async resolve(url: string, requester: Track['requester']): Promise<AddTrackResult> {
+    await this.authorize();
+    const info = await soundcloud(url);
+
+    if (info instanceof SoundCloudTrack) {
+      return { tracks: [this.createTrack(info, requester)] };
+    }
+    if (info.type !== 'playlist') {
+      throw new Error('Only SoundCloud tracks, playlists and albums can be played');
+    }
+
+    const limit = getPlaylistLimit();
+    const entries = (await info.all_tracks()).slice(0, limit);
+    // Tracks the uploader made private or region-locked come back without a stream
+    const tracks = entries
+      .filter(track => track.fetched && track.formats.length > 0)
+      .map(track => this.createTrack(track, requester));
+
+    return {
+      tracks,
+      playlistName: info.name || 'SoundCloud Playlist',
+      skipped: Math.max(0, Math.min(info.tracksCount, limit) - tracks.length)
+    };
+  }
+
+  public async getStream(track: Track, seekSeconds: number): Promise<SourceStream> {
+    await this.authorize();
+    const { stream: audio, type } = await stream(track.url);
+
+    // SoundCloud streams can't start part-way through, so FFmpeg decodes up to the position instead
+    if (seekSeconds > 0) {
+      return { stream: createPcmStream(audio, seekSeconds), type: StreamType.Raw };
+    }
+    return { stream: audio, type };
+  }
+
+  private authorize(): Promise<void> {
+    this.authorization ??= (async () => {
+      const clientId = process.env.SOUNDCLOUD_CLIENT_ID || await getFreeClientID();
+      await setToken({ soundcloud: { client_id: clientId } });
+    })().catch(error => {
+      // Try again on the next request rather than failing forever
+      this.authorization = undefined;
+      throw error;
+    });
+
+    return this.authorization;
+  }
+
+  private createTrack(track: SoundCloudTrack, requester: Track['requester']): Track {
+    return {
+      id: `${track.id}`,
+      title: track.user?.name ? `${track.user.name} - ${track.name}` : track.name,
+      duration: track.durationInSec || 0,
+      thumbnail: track.thumbnail || undefined,
+      url: track.url,
+      requester,
+      source: 'soundcloud'
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { basename, extname } from 'path';
+import { Readable } from 'stream';
+import { StreamType } from '@discordjs/voice';
+import { Track } from '../../../shared/types.js';
+import { TrackSource } from '../../../shared/sources.js';
+
+export interface AddTrackResult {
+  tracks: Track[];
+  playlistName?: string;
+  // Entries that could not be enqueued because they are private, deleted or otherwise unplayable
+  skipped?: number;
+}
+
+export interface SourceStream {
+  stream: Readable;
+  type: StreamType;
+}
+
+// Anything tracks can be played from; the SourceRegistry asks its providers in order which one handles a query
+export interface SourceProvider {
+  readonly name: TrackSource;
+  // Decoded by FFmpeg, so these tracks can't be played at all without it
+  readonly requiresFFmpeg?: boolean;
+  matches(query: string): boolean;
+  // Looks up the metadata of a link (a single track, or every entry of a playlist) without starting playback
+  resolve(query: string, requester: Track['requester']): Promise<AddTrackResult>;
+  getStream(track: Track, seekSeconds: number): Promise<SourceStream>;
+  // Points the track at a different copy of the same song when its own keeps failing; returns false if there isn't one
+  findAlternative?(track: Track): Promise<boolean>;
+}
+
+export function getPlaylistLimit(): number {
+  const value = parseInt(process.env.MAX_PLAYLIST_TRACKS || '', 10);
+  return Number.isNaN(value) || value < 1 ? 500 : value;
+}
+
+const AUDIO_FILE_EXTENSIONS = ['.mp3', '.ogg', '.oga', '.opus', '.flac', '.wav', '.m4a', '.aac', '.webm'];
+
+export function isAudioFile(path: string): boolean {
+  return AUDIO_FILE_EXTENSIONS.includes(extname(path).toLowerCase());
+}
+
+// "Artist - Song.mp3" becomes "Artist - Song"
+export function getFileTitle(path: string): string {
+  return basename(path, extname(path)).replace(/_/g, ' ').trim() || 'Unknown Track';
+}
@@ -0,0 +1,77 @@
+import { SearchResult, Track } from '../../../shared/types.js';
+import { TrackSource } from '../../../shared/sources.js';
+import { isFFmpegAvailable } from '../filters.js';
+import { AddTrackResult, SourceProvider, SourceStream } from './SourceProvider.js';
+import { YouTubeSource } from './YouTubeSource.js';
+import { SpotifySource } from './SpotifySource.js';
+import { SoundCloudSource } from './SoundCloudSource.js';
+import { HttpAudioSource } from './HttpAudioSource.js';
+import { LocalFileSource } from './LocalFileSource.js';
+
+// YouTube also answers searches and autoplay; the library can be browsed
+type SourceProviders = Record<TrackSource, SourceProvider> & { youtube: YouTubeSource; local: LocalFileSource };
+
+// One provider per TrackSource; links go to the first provider that matches and anything else is searched on YouTube
+export class SourceRegistry {
+  public readonly youtube: YouTubeSource;
+  private providers: SourceProviders;
+
+  constructor(providers: SourceProviders) {
+    this.youtube = providers.youtube;
+    this.providers = providers;
+  }
+
+  public find(query: string): SourceProvider | undefined {
+    return Object.values(this.providers).find(provider => provider.matches(query));
+  }
+
+  public get(source: TrackSource): SourceProvider {
+    const provider = this.providers[source];
+    if (!provider) throw new Error(`Unsupported track source: ${source}`);
+    return provider;
+  }
+
+  // True for audio files and library paths when FFmpeg isn't installed to decode them
+  public isMissingFFmpeg(query: string): boolean {
+    return !!this.find(query)?.requiresFFmpeg && !isFFmpegAvailable();
+  }
+
+  public async resolve(query: string, requester: Track['requester']): Promise<AddTrackResult> {
+    const provider = this.find(query);
+    if (provider?.requiresFFmpeg && !isFFmpegAvailable()) throw new Error(`FFmpeg is needed to play ${provider.name} tracks`);
+    return provider
+      ? provider.resolve(query, requester)
+      : { tracks: [await this.youtube.search(query, requester)] };
+  }
+
+  public searchTracks(query: string, limit: number): Promise<SearchResult[]> {
+    return this.youtube.searchTracks(query, limit);
+  }
+
+  public searchLibrary(query: string, limit: number): Promise<string[]> {
+    return this.providers.local.search(query, limit);
+  }
+
+  public async getStream(track: Track, seekSeconds: number): Promise<SourceStream> {
+    const provider = this.get(track.source);
+    if (provider.requiresFFmpeg && !isFFmpegAvailable()) throw new Error(`FFmpeg is needed to play ${provider.name} tracks`);
+    return provider.getStream(track, seekSeconds);
+  }
+
+  public async findAlternative(track: Track): Promise<boolean> {
+    return await this.get(track.source).findAlternative?.(track) ?? false;
+  }
+}
+
+export function createSourceRegistry(): SourceRegistry {
+  const youtube = new YouTubeSource();
+
+  return new SourceRegistry({
+    youtube,
+    spotify: new SpotifySource(youtube),
+    soundcloud: new SoundCloudSource(),
+    local: new LocalFileSource(process.env.MUSIC_DIR),
+    // Last, since it accepts any link that ends in an audio file extension
+    http: new HttpAudioSource()
+  });
+}
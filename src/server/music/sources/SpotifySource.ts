@@ -0,0 +1,165 @@
+import SpotifyWebApi from 'spotify-web-api-node';
+import { search } from 'play-dl';
+import { logger } from '../../utils/logger.js';
+import { Track } from '../../../shared/types.js';
+import { AddTrackResult, SourceProvider, SourceStream, getPlaylistLimit } from './SourceProvider.js';
+import { YouTubeSource } from './YouTubeSource.js';
+
+const SPOTIFY_URL_PATTERN = /^(?:https?:\/\/open\.spotify\.com\/(?:intl-[a-z-]+\/)?|spotify:)(track|playlist|album|artist)[/:]([a-zA-Z0-9]+)/;
+
+type SpotifyResourceType = 'track' | 'playlist' | 'album' | 'artist';
+
+// The parts of a Spotify track object that tracks are built from
+interface SpotifyTrackItem {
+  id: string;
+  name: string;
+  artists: { name: string }[];
+  duration_ms: number;
+  album?: { images?: { url: string }[] };
+  external_urls?: { spotify?: string };
+}
+
+// Spotify only provides metadata; each entry is matched to a YouTube upload right before it plays
+export class SpotifySource implements SourceProvider {
+  public readonly name = 'spotify';
+  private youtube: YouTubeSource;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private spotify?: any;
+
+  constructor(youtube: YouTubeSource) {
+    this.youtube = youtube;
+
+    if (process.env.SPOTIFY_CLIENT_ID && process.env.SPOTIFY_CLIENT_SECRET) {
+      this.spotify = new SpotifyWebApi({
+        clientId: process.env.SPOTIFY_CLIENT_ID,
+        clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+      });
+
+      this.refreshToken();
+    } else {
+      logger.warn('Spotify credentials not provided - Spotify features disabled');
+    }
+  }
+
+  // Client credentials tokens expire after an hour, so renew shortly before that
+  private refreshToken() {
+    this.spotify.clientCredentialsGrant().then(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (data: any) => {
+        this.spotify!.setAccessToken(data.body['access_token']);
+        logger.info('Spotify API initialized successfully');
+
+        const refreshIn = Math.max(60, data.body['expires_in'] - 60) * 1000;
+        setTimeout(() => this.refreshToken(), refreshIn).unref();
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (err: any) => {
+        logger.error('Spotify API initialization failed:', err);
+        setTimeout(() => this.refreshToken(), 60_000).unref();
+      }
+    );
+  }
+
+  public matches(query: string): boolean {
+    return SPOTIFY_URL_PATTERN.test(query);
+  }
+
+  public async resolve(url: string, requester: Track['requester']): Promise<AddTrackResult> {
+    if (!this.spotify) {
+      throw new Error('Spotify not configured');
+    }
+
+    const resource = this.parseUrl(url);
+    if (!resource) throw new Error('Invalid Spotify URL');
+
+    const limit = getPlaylistLimit();
+
+    switch (resource.type) {
+      case 'track': {
+        const { body } = await this.spotify.getTrack(resource.id);
+        return { tracks: [this.createTrack(body, requester)] };
+      }
+      case 'playlist': {
+        const { body: playlist } = await this.spotify.getPlaylist(resource.id, { fields: 'name' });
+        const tracks: Track[] = [];
+        let skipped = 0;
+        let offset = 0;
+
+        while (tracks.length < limit) {
+          const { body: page } = await this.spotify.getPlaylistTracks(resource.id, { offset, limit: 100 });
+          for (const item of page.items) {
+            // Local files and podcast episodes have no Spotify track to match against
+            if (item.track?.type === 'track' && !item.is_local) {
+              tracks.push(this.createTrack(item.track, requester));
+            } else {
+              skipped++;
+            }
+          }
+
+          if (!page.next) break;
+          offset += page.items.length;
+        }
+
+        return { tracks: tracks.slice(0, limit), playlistName: playlist.name, skipped };
+      }
+      case 'album': {
+        const { body: album } = await this.spotify.getAlbum(resource.id);
+        const tracks: Track[] = [];
+        let offset = 0;
+
+        while (tracks.length < limit) {
+          const { body: page } = await this.spotify.getAlbumTracks(resource.id, { offset, limit: 50 });
+          // Album track objects are simplified and don't carry the album artwork
+          tracks.push(...page.items.map((item: SpotifyTrackItem) => this.createTrack({ ...item, album }, requester)));
+
+          if (!page.next) break;
+          offset += page.items.length;
+        }
+
+        return { tracks: tracks.slice(0, limit), playlistName: album.name };
+      }
+      case 'artist': {
+        const { body: artist } = await this.spotify.getArtist(resource.id);
+        const { body } = await this.spotify.getArtistTopTracks(resource.id, process.env.SPOTIFY_MARKET || 'US');
+        return {
+          tracks: body.tracks.slice(0, limit).map((item: SpotifyTrackItem) => this.createTrack(item, requester)),
+          playlistName: `${artist.name} - Top Tracks`
+        };
+      }
+    }
+  }
+
+  public async getStream(track: Track, seekSeconds: number): Promise<SourceStream> {
+    // The match is remembered on the track so seeks and replays don't search again
+    if (!track.streamUrl) {
+      const results = await search(track.searchQuery ?? track.title, { limit: 1 });
+      if (!results.length) throw new Error(`No YouTube equivalent found for ${track.title}`);
+      track.streamUrl = results[0].url;
+    }
+
+    return this.youtube.getStream(track, seekSeconds);
+  }
+
+  public findAlternative(track: Track): Promise<boolean> {
+    return this.youtube.findAlternative(track);
+  }
+
+  private parseUrl(url: string): { type: SpotifyResourceType; id: string } | null {
+    const match = url.match(SPOTIFY_URL_PATTERN);
+    return match ? { type: match[1] as SpotifyResourceType, id: match[2] } : null;
+  }
+
+  private createTrack(item: SpotifyTrackItem, requester: Track['requester']): Track {
+    const artists = item.artists.map(artist => artist.name);
+    return {
+      id: item.id,
+      title: `${artists[0]} - ${item.name}`,
+      duration: Math.floor(item.duration_ms / 1000),
+      thumbnail: item.album?.images?.[0]?.url,
+      url: item.external_urls?.spotify || `https://open.spotify.com/track/${item.id}`,
+      requester,
+      source: 'spotify',
+      searchQuery: `${artists.join(' ')} ${item.name}`
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { search, stream, playlist_info, yt_validate, video_basic_info, extractID, YouTubeVideo } from 'play-dl';
+import { logger } from '../../utils/logger.js';
+import { SearchResult, Track } from '../../../shared/types.js';
+import { AddTrackResult, SourceProvider, SourceStream, getPlaylistLimit } from './SourceProvider.js';
+
+// How far an alternative upload's length may differ from the original, in seconds
+const FALLBACK_DURATION_TOLERANCE = 15;
+
+export class YouTubeSource implements SourceProvider {
+  public readonly name = 'youtube';
+
+  public matches(query: string): boolean {
+    return /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)/.test(query);
+  }
+
+  public async resolve(url: string, requester: Track['requester']): Promise<AddTrackResult> {
+    if (/[?&]list=/.test(url) && yt_validate(url) === 'playlist') {
+      return this.getPlaylist(url, requester);
+    }
+    return { tracks: [await this.getTrack(url, requester)] };
+  }
+
+  public async getTrack(url: string, requester: Track['requester']): Promise<Track> {
+    const info = await search(url, { limit: 1 });
+    if (!info.length) throw new Error('No video found');
+
+    return this.createTrack(info[0], requester);
+  }
+
+  private async getPlaylist(url: string, requester: Track['requester']): Promise<AddTrackResult> {
+    const limit = getPlaylistLimit();
+
+    // incomplete: true lets hidden or unavailable videos through instead of rejecting the playlist
+    const playlist = await playlist_info(url, { incomplete: true });
+    await playlist.fetch(limit);
+
+    const videos: YouTubeVideo[] = [];
+    for (let page = 1; page <= playlist.total_pages; page++) {
+      videos.push(...playlist.page(page));
+    }
+
+    const tracks = videos
+      .slice(0, limit)
+      .filter(video => this.isPlayableVideo(video))
+      .map(video => this.createTrack(video, requester));
+
+    const expected = Math.min(playlist.videoCount || videos.length, limit);
+    return {
+      tracks,
+      playlistName: playlist.title || 'YouTube Playlist',
+      skipped: Math.max(0, expected - tracks.length)
+    };
+  }
+
+  // Plain text queries are looked up here when no provider claims them
+  public async search(query: string, requester: Track['requester']): Promise<Track> {
+    const results = await search(query, { limit: 1 });
+    if (!results.length) throw new Error('No results found');
+
+    return this.createTrack(results[0], requester);
+  }
+
+  public async searchTracks(query: string, limit: number): Promise<SearchResult[]> {
+    const results = await search(query, { limit, source: { youtube: 'video' } });
+
+    return results.filter(video => this.isPlayableVideo(video)).map(video => ({
+      id: video.id!,
+      title: video.title!,
+      channel: video.channel?.name,
+      duration: video.durationInSec || 0,
+      thumbnail: video.thumbnails?.[0]?.url,
+      url: video.url
+    }));
+  }
+
+  public async getStream(track: Track, seekSeconds: number): Promise<SourceStream> {
+    const { stream: audio, type } = await stream(track.streamUrl ?? track.url, { quality: 2, ...(seekSeconds > 0 && { seek: seekSeconds }) });
+    return { stream: audio, type };
+  }
+
+  public async findAlternative(track: Track): Promise<boolean> {
+    const failedUrl = track.streamUrl ?? track.url;
+
+    try {
+      const results = await search(track.searchQuery ?? track.title, { limit: 5, source: { youtube: 'video' } });
+      const alternative = results.find(video =>
+        video.url !== failedUrl &&
+        this.isPlayableVideo(video) &&
+        (!track.duration || Math.abs(video.durationInSec - track.duration) <= FALLBACK_DURATION_TOLERANCE)
+      );
+
+      if (!alternative) return false;
+
+      logger.info(`Trying alternative upload for ${track.title}: ${alternative.url}`);
+      track.streamUrl = alternative.url;
+      return true;
+    } catch (error) {
+      logger.error(`Fallback search failed for ${track.title}:`, error);
+      return false;
+    }
+  }
+
+  public async getRelatedVideos(url: string): Promise<string[]> {
+    const { related_videos } = await video_basic_info(url);
+    return related_videos;
+  }
+
+  public getVideoId(url: string): string | null {
+    if (!this.matches(url)) return null;
+
+    try {
+      return extractID(url);
+    } catch {
+      return null;
+    }
+  }
+
+  private isPlayableVideo(video: YouTubeVideo): boolean {
+    return !!video.id && !video.upcoming && !['[Private video]', '[Deleted video]'].includes(video.title || '');
+  }
+
+  private createTrack(video: YouTubeVideo, requester: Track['requester']): Track {
+    return {
+      id: video.id!,
+      title: video.title!,
+      duration: video.durationInSec || 0,
+      thumbnail: video.thumbnails?.[0]?.url,
+      url: video.url,
+      requester,
+      source: 'youtube'
+    };
+  }
+}
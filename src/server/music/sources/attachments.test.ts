@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isDiscordAttachment, isExpiredAttachment } from './attachments.js';
+
+const EXPIRY = Date.UTC(2026, 0, 1) / 1000;
+const attachmentUrl = (expiry: number) =>
+  `https://cdn.discordapp.com/attachments/1/2/song.mp3?ex=${expiry.toString(16)}&is=0&hm=abc`;
+
+describe('isDiscordAttachment', () => {
+  it('recognizes links to Discord uploads', () => {
+    assert.equal(isDiscordAttachment(attachmentUrl(EXPIRY)), true);
+    assert.equal(isDiscordAttachment('https://media.discordapp.net/attachments/1/2/song.mp3'), true);
+  });
+
+  it('ignores other links', () => {
+    for (const url of ['https://cdn.discordapp.com/avatars/1/2.png', 'https://example.com/attachments/song.mp3', 'local:song.mp3', 'not a url']) {
+      assert.equal(isDiscordAttachment(url), false, url);
+    }
+  });
+});
+
+describe('isExpiredAttachment', () => {
+  it('compares the expiry in the link with the time', () => {
+    assert.equal(isExpiredAttachment(attachmentUrl(EXPIRY), EXPIRY * 1000 - 1), false);
+    assert.equal(isExpiredAttachment(attachmentUrl(EXPIRY), EXPIRY * 1000), true);
+  });
+
+  it('never expires links without an expiry or from elsewhere', () => {
+    assert.equal(isExpiredAttachment('https://cdn.discordapp.com/attachments/1/2/song.mp3', Date.now()), false);
+    assert.equal(isExpiredAttachment('https://cdn.discordapp.com/attachments/1/2/song.mp3?ex=zz', Date.now()), false);
+    assert.equal(isExpiredAttachment(`https://example.com/song.mp3?ex=${(0).toString(16)}`, Date.now()), false);
+  });
+});
@@ -0,0 +1,19 @@
+const ATTACHMENT_HOSTS = ['cdn.discordapp.com', 'media.discordapp.net'];
+
+// Uploads are played straight from Discord's CDN, whose links are signed and stop working after about a day
+export function isDiscordAttachment(url: string): boolean {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return ATTACHMENT_HOSTS.includes(hostname) && pathname.startsWith('/attachments/');
+  } catch {
+    return false;
+  }
+}
+
+// Whether a signed attachment link has run out; its "ex" parameter is the expiry time in hex seconds
+export function isExpiredAttachment(url: string, now = Date.now()): boolean {
+  if (!isDiscordAttachment(url)) return false;
+
+  const expiry = parseInt(new URL(url).searchParams.get('ex') ?? '', 16);
+  return !Number.isNaN(expiry) && expiry * 1000 <= now;
+}
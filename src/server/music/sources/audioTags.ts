@@ -0,0 +1,65 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { IAudioMetadata, parseWebStream, selectCover } from 'music-metadata';
+import { Track } from '../../../shared/types.js';
+import { logger } from '../../utils/logger.js';
+import { saveCoverArt } from './coverArt.js';
+import { fetchPublicUrl } from './publicUrl.js';
+
+// Slow hosts and endless streams would otherwise hold up /play
+const TAG_REQUEST_TIMEOUT_MS = 10_000;
+
+// Fills in title, artist, duration and artwork from the file's tags; the filename-based details stay when there are none
+export async function applyFileTags(track: Track, filePath: string): Promise<Track> {
+  const file = createReadStream(filePath);
+
+  try {
+    const { size } = await stat(filePath);
+    const metadata = await parseWebStream(Readable.toWeb(file) as ReadableStream<Uint8Array>, { path: filePath, size });
+    return await applyTags(track, metadata);
+  } catch (error) {
+    logger.debug(`Could not read tags of ${filePath}: ${error}`);
+    return track;
+  } finally {
+    file.destroy();
+  }
+}
+
+export async function applyUrlTags(track: Track, url: string): Promise<Track> {
+  const response = await fetchPublicUrl(url, AbortSignal.timeout(TAG_REQUEST_TIMEOUT_MS));
+  // A dead link is better reported now than when its turn comes
+  if (!response.ok || !response.body) throw new Error(`Could not download ${url} (HTTP ${response.status})`);
+
+  try {
+    const size = Number(response.headers.get('content-length'));
+    const metadata = await parseWebStream(response.body, {
+      mimeType: response.headers.get('content-type') ?? undefined,
+      // Lets the duration of constant bitrate files be worked out from the file size
+      ...(size > 0 && { size })
+    });
+    return await applyTags(track, metadata);
+  } catch (error) {
+    logger.debug(`Could not read tags of ${url}: ${error}`);
+    return track;
+  } finally {
+    // Only the headers are parsed, so stop downloading once they have been read
+    response.body.cancel().catch(() => undefined);
+  }
+}
+
+async function applyTags(track: Track, { common, format }: IAudioMetadata): Promise<Track> {
+  const cover = selectCover(common.picture);
+  const thumbnail = cover ? await saveCoverArt(cover) : undefined;
+  const title = common.title?.trim();
+  const artist = (common.artist ?? common.albumartist)?.trim();
+
+  return {
+    ...track,
+    // Same "Artist - Title" shape as Spotify tracks, which lyrics lookups rely on
+    ...(title && { title: artist ? `${artist} - ${title}` : title }),
+    ...(format.duration && { duration: Math.round(format.duration) }),
+    ...(thumbnail && { thumbnail })
+  };
+}
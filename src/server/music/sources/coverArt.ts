@@ -0,0 +1,40 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDataDirectory } from '../../storage/JsonStore.js';
+import { logger } from '../../utils/logger.js';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+export function getCoverArtDirectory(): string {
+  return path.join(getDataDirectory(), 'covers');
+}
+
+// Embedded artwork is written out once, named by its hash, and served from /covers so Discord and the dashboard can show it
+export async function saveCoverArt(picture: { format: string; data: Uint8Array }): Promise<string | undefined> {
+  const extension = IMAGE_EXTENSIONS[picture.format.toLowerCase()];
+  if (!extension) return undefined;
+
+  const fileName = `${createHash('sha1').update(picture.data).digest('hex')}.${extension}`;
+  const filePath = path.join(getCoverArtDirectory(), fileName);
+
+  try {
+    await fs.mkdir(getCoverArtDirectory(), { recursive: true });
+    await fs.writeFile(filePath, picture.data, { flag: 'wx' });
+  } catch (error) {
+    // Albums share their artwork, so most files are already there
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      logger.warn(`Failed to save cover art ${fileName}:`, error);
+      return undefined;
+    }
+  }
+
+  const baseUrl = process.env.DASHBOARD_URL || `http://localhost:${process.env.PORT || 3000}`;
+  return `${baseUrl.replace(/\/$/, '')}/covers/${fileName}`;
+}
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchPublicUrl, isPublicAddress } from './publicUrl.js';
+
+describe('isPublicAddress', () => {
+  it('allows public addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '172.32.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('refuses private, loopback, link-local and multicast addresses', () => {
+    const addresses = [
+      '0.0.0.0', '10.1.2.3', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1', '172.31.255.255',
+      '192.168.1.1', '224.0.0.1', '255.255.255.255', '::', '::1', 'fd00::1', 'fe80::1', 'ff02::1'
+    ];
+    for (const address of addresses) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('refuses private IPv4 addresses written as IPv6', () => {
+    assert.equal(isPublicAddress('::ffff:127.0.0.1'), false);
+    assert.equal(isPublicAddress('::ffff:169.254.169.254'), false);
+  });
+});
+
+describe('fetchPublicUrl', () => {
+  it('refuses links to private hosts before requesting them', async () => {
+    for (const url of ['http://127.0.0.1:3000/song.mp3', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/song.mp3', 'http://localhost/song.mp3']) {
+      await assert.rejects(fetchPublicUrl(url, AbortSignal.timeout(1000)), /private or local address/, url);
+    }
+  });
+
+  it('refuses protocols other than http and https', async () => {
+    await assert.rejects(fetchPublicUrl('file:///etc/passwd', AbortSignal.timeout(1000)), /Unsupported protocol/);
+  });
+});
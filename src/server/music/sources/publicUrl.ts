@@ -0,0 +1,57 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIPv6 } from 'net';
+
+const MAX_REDIRECTS = 5;
+
+// Links come straight from users, so the bot must not be talked into requesting anything on its own network
+const privateAddresses = new BlockList();
+privateAddresses.addSubnet('0.0.0.0', 8);
+privateAddresses.addSubnet('10.0.0.0', 8);
+privateAddresses.addSubnet('100.64.0.0', 10);
+privateAddresses.addSubnet('127.0.0.0', 8);
+privateAddresses.addSubnet('169.254.0.0', 16);
+privateAddresses.addSubnet('172.16.0.0', 12);
+privateAddresses.addSubnet('192.168.0.0', 16);
+privateAddresses.addSubnet('224.0.0.0', 3);
+privateAddresses.addAddress('::', 'ipv6');
+privateAddresses.addAddress('::1', 'ipv6');
+privateAddresses.addSubnet('fc00::', 7, 'ipv6');
+privateAddresses.addSubnet('fe80::', 10, 'ipv6');
+privateAddresses.addSubnet('ff00::', 8, 'ipv6');
+
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+export function isPublicAddress(address: string): boolean {
+  return !privateAddresses.check(address, isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+async function assertPublicHost(url: URL): Promise<void> {
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  if (!addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new Error(`Refusing to fetch ${url.hostname}: it is a private or local address`);
+  }
+}
+
+// Fetches a user-supplied link, checking the host again at every redirect; the response's url is where it ended up
+export async function fetchPublicUrl(url: string, signal: AbortSignal): Promise<Response> {
+  let current = new URL(url);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertPublicHost(current);
+
+    const response = await fetch(current, { signal, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    current = new URL(location, current);
+  }
+
+  throw new Error(`Too many redirects for ${url}`);
+}
@@ -0,0 +1,36 @@
+import { Server as SocketServer } from 'socket.io';
+import { MusicManager } from '../music/MusicManager.js';
+import { PlaylistManager } from '../music/PlaylistManager.js';
+import { logger } from '../utils/logger.js';
+
+// Relays every MusicManager event to the dashboards watching that server, whatever caused it
+export function setupMusicBridge(io: SocketServer, musicManager: MusicManager, onConnectionChanged: () => void) {
+  musicManager.on('queueChanged', (guildId, queue) => {
+    io.to(`server:${guildId}`).emit('queue-update', guildId, queue);
+  });
+
+  musicManager.on('trackStart', (guildId, track) => {
+    io.to(`server:${guildId}`).emit('track-start', guildId, track);
+  });
+
+  musicManager.on('trackEnd', (guildId, track) => {
+    logger.debug(`Finished ${track.title} in guild ${guildId}`);
+  });
+
+  musicManager.on('connectionChanged', (guildId, connected, reason) => {
+    logger.info(`Voice connection in guild ${guildId} ${connected ? 'opened' : `closed${reason ? ` (${reason})` : ''}`}`);
+    onConnectionChanged();
+  });
+
+  musicManager.on('error', (guildId, message) => {
+    io.to(`server:${guildId}`).emit('player-error', guildId, message);
+  });
+}
+
+// Server playlists go to everyone watching that server, personal ones to every tab their owner has open
+export function setupPlaylistBridge(io: SocketServer, playlistManager: PlaylistManager) {
+  playlistManager.on('playlistsChanged', (scope, ownerId) => {
+    const room = scope === 'guild' ? `server:${ownerId}` : `user:${ownerId}`;
+    io.to(room).emit('playlists-update', scope, ownerId, playlistManager.list(scope, ownerId));
+  });
+}
@@ -1,16 +1,47 @@
-import { Server as SocketServer } from 'socket.io';
+import { Server as SocketServer, Socket } from 'socket.io';
+import { Client, VoiceChannel } from 'discord.js';
+import express from 'express';
 import { MusicManager } from '../music/MusicManager.js';
+import { PlaylistManager, canSaveTrack } from '../music/PlaylistManager.js';
+import { LyricsService } from '../lyrics/LyricsService.js';
 import { logger } from '../utils/logger.js';
-import { SocketEvents } from '../../shared/types.js';
+import { getSession } from '../auth/oauth.js';
+import { getGuildMember, canAffectTracks, canEditPlaylist } from '../auth/permissions.js';
+import { SocketEvents, PlayerAction, DashboardUser, PlaylistScope, Queue, Track, AudioFilters } from '../../shared/types.js';
+
+const SEARCH_RESULT_LIMIT = 8;
+
+export function setupSocketHandlers(
+  io: SocketServer,
+  musicManager: MusicManager,
+  client: Client,
+  playlistManager: PlaylistManager,
+  lyricsService: LyricsService
+) {
+  // Only logged-in dashboard users may connect
+  io.use((socket, next) => {
+    const { user, guildIds } = getSession(socket.request as express.Request);
+    if (!user) {
+      next(new Error('Unauthorized'));
+      return;
+    }
+
+    socket.data.user = user;
+    socket.data.guildIds = guildIds ?? [];
+    next();
+  });
 
-export function setupSocketHandlers(io: SocketServer, musicManager: MusicManager) {
   io.on('connection', (socket) => {
-    logger.info(`Client connected: ${socket.id}`);
+    const user = socket.data.user as DashboardUser;
+    logger.info(`Client connected: ${socket.id} (${user.username})`);
+    socket.join(`user:${user.id}`);
+
+    socket.on('join-server', async (serverId: string) => {
+      if (!await authorize(socket, client, musicManager, serverId)) return;
 
-    socket.on('join-server', (serverId: string) => {
       logger.info(`Client ${socket.id} joined server ${serverId}`);
       socket.join(`server:${serverId}`);
-      
+
       // Send current queue state
       const queue = musicManager.getQueue(serverId);
       if (queue) {
@@ -23,12 +54,15 @@ export function setupSocketHandlers(io: SocketServer, musicManager: MusicManager
       socket.leave(`server:${serverId}`);
     });
 
-    socket.on('control-player', (serverId: string, action: 'play' | 'pause' | 'skip' | 'stop' | 'shuffle') => {
-      logger.info(`Player control: ${action} for server ${serverId}`);
-      
+    socket.on('control-player', async (serverId: string, action: PlayerAction) => {
+      const affectedTracks = getAffectedTracks(musicManager.getQueue(serverId), action);
+      if (!await authorize(socket, client, musicManager, serverId, affectedTracks)) return;
+
+      logger.info(`Player control: ${action} for server ${serverId} by ${user.username}`);
+
       try {
         let success = false;
-        
+
         switch (action) {
           case 'play':
             success = musicManager.resume(serverId);
@@ -39,21 +73,24 @@ export function setupSocketHandlers(io: SocketServer, musicManager: MusicManager
           case 'skip':
             success = musicManager.skip(serverId);
             break;
+          case 'previous':
+            success = await musicManager.previous(serverId);
+            break;
           case 'stop':
             success = musicManager.stop(serverId);
             break;
           case 'shuffle':
             success = musicManager.shuffle(serverId);
             break;
+          case 'loop':
+            success = musicManager.setLoop(serverId);
+            break;
+          case 'autoplay':
+            success = musicManager.setAutoplay(serverId);
+            break;
         }
 
-        if (success) {
-          // Broadcast updated queue to all clients in this server
-          const queue = musicManager.getQueue(serverId);
-          if (queue) {
-            io.to(`server:${serverId}`).emit('queue-update', serverId, queue);
-          }
-        } else {
+        if (!success) {
           socket.emit('error', `Failed to ${action} player`);
         }
       } catch (error) {
@@ -62,18 +99,19 @@ export function setupSocketHandlers(io: SocketServer, musicManager: MusicManager
       }
     });
 
-    socket.on('set-volume', (serverId: string, volume: number) => {
+    socket.on('set-volume', async (serverId: string, volume: number) => {
+      if (!Number.isFinite(volume)) {
+        socket.emit('error', 'Invalid volume');
+        return;
+      }
+      if (!await authorize(socket, client, musicManager, serverId, [])) return;
+
       logger.info(`Setting volume to ${volume} for server ${serverId}`);
-      
+
       try {
         const success = musicManager.setVolume(serverId, volume);
-        
-        if (success) {
-          const queue = musicManager.getQueue(serverId);
-          if (queue) {
-            io.to(`server:${serverId}`).emit('queue-update', serverId, queue);
-          }
-        } else {
+
+        if (!success) {
           socket.emit('error', 'Failed to set volume');
         }
       } catch (error) {
@@ -82,18 +120,38 @@ export function setupSocketHandlers(io: SocketServer, musicManager: MusicManager
       }
     });
 
-    socket.on('remove-track', (serverId: string, trackIndex: number) => {
+    socket.on('set-filters', async (serverId: string, filters: AudioFilters) => {
+      if (!await authorize(socket, client, musicManager, serverId, [])) return;
+
+      logger.info(`Setting filters for server ${serverId}`);
+
+      if (!musicManager.getConnection(serverId)) {
+        socket.emit('error', 'The bot is not in a voice channel on this server');
+        return;
+      }
+
+      try {
+        const success = await musicManager.setFilters(serverId, filters);
+
+        if (!success) {
+          socket.emit('error', 'Failed to apply filters. Is FFmpeg installed on the bot\'s host?');
+        }
+      } catch (error) {
+        logger.error(`Error setting filters:`, error);
+        socket.emit('error', 'An error occurred while setting filters');
+      }
+    });
+
+    socket.on('remove-track', async (serverId: string, trackIndex: number) => {
+      const track = musicManager.getQueue(serverId)?.tracks[trackIndex];
+      if (!await authorize(socket, client, musicManager, serverId, [track])) return;
+
       logger.info(`Removing track ${trackIndex} from server ${serverId}`);
-      
+
       try {
         const success = musicManager.removeTrack(serverId, trackIndex);
-        
-        if (success) {
-          const queue = musicManager.getQueue(serverId);
-          if (queue) {
-            io.to(`server:${serverId}`).emit('queue-update', serverId, queue);
-          }
-        } else {
+
+        if (!success) {
           socket.emit('error', 'Failed to remove track');
         }
       } catch (error) {
@@ -102,8 +160,325 @@ export function setupSocketHandlers(io: SocketServer, musicManager: MusicManager
       }
     });
 
+    socket.on('move-track', async (serverId: string, fromIndex: number, toIndex: number) => {
+      const track = musicManager.getQueue(serverId)?.tracks[fromIndex];
+      if (!await authorize(socket, client, musicManager, serverId, [track])) return;
+
+      logger.info(`Moving track ${fromIndex} to ${toIndex} in server ${serverId}`);
+
+      try {
+        const success = musicManager.moveTrack(serverId, fromIndex, toIndex);
+
+        if (!success) {
+          socket.emit('error', 'Failed to move track');
+        }
+      } catch (error) {
+        logger.error(`Error moving track:`, error);
+        socket.emit('error', 'An error occurred while moving the track');
+      }
+    });
+
+    socket.on('skip-to', async (serverId: string, trackIndex: number) => {
+      const queue = musicManager.getQueue(serverId);
+      const skippedTracks = [queue?.currentTrack, ...(queue?.tracks.slice(0, trackIndex) ?? [])];
+      if (!await authorize(socket, client, musicManager, serverId, skippedTracks)) return;
+
+      logger.info(`Skipping to track ${trackIndex} in server ${serverId}`);
+
+      try {
+        const success = musicManager.skipTo(serverId, trackIndex);
+
+        if (!success) {
+          socket.emit('error', 'Failed to skip to track');
+        }
+      } catch (error) {
+        logger.error(`Error skipping to track:`, error);
+        socket.emit('error', 'An error occurred while skipping to the track');
+      }
+    });
+
+    socket.on('seek', async (serverId: string, position: number) => {
+      if (!Number.isFinite(position) || position < 0) {
+        socket.emit('error', 'Invalid seek position');
+        return;
+      }
+      if (!await authorize(socket, client, musicManager, serverId, [musicManager.getQueue(serverId)?.currentTrack])) return;
+
+      logger.info(`Seeking to ${position}s in server ${serverId}`);
+
+      try {
+        const success = await musicManager.seek(serverId, position);
+
+        if (!success) {
+          socket.emit('error', 'Failed to seek');
+        }
+      } catch (error) {
+        logger.error(`Error seeking:`, error);
+        socket.emit('error', 'An error occurred while seeking');
+      }
+    });
+
+    socket.on('search-tracks', async (query: string) => {
+      if (typeof query !== 'string' || !query.trim()) return;
+
+      try {
+        const results = await musicManager.searchTracks(query.trim(), SEARCH_RESULT_LIMIT);
+        socket.emit('search-results', query, results);
+      } catch (error) {
+        logger.error(`Error searching tracks:`, error);
+        socket.emit('error', 'An error occurred while searching');
+      }
+    });
+
+    socket.on('add-track', async (serverId: string, query: string) => {
+      if (!await authorize(socket, client, musicManager, serverId)) return;
+
+      logger.info(`Adding "${query}" to server ${serverId} from the dashboard by ${user.username}`);
+
+      if (musicManager.isMissingFFmpeg(query)) {
+        socket.emit('error', 'Audio files and the music library need FFmpeg, which isn\'t installed on this bot');
+        return;
+      }
+
+      try {
+        if (!await ensureConnected(socket, client, musicManager, serverId)) return;
+
+        const result = await musicManager.addTrack(serverId, query, user);
+        if (!result) {
+          socket.emit('error', 'Could not find or add the requested track');
+          return;
+        }
+
+        socket.emit('track-added', serverId, result.tracks);
+      } catch (error) {
+        logger.error(`Error adding track:`, error);
+        socket.emit('error', 'An error occurred while adding the track');
+      }
+    });
+
+    socket.on('requeue-track', async (serverId: string, historyIndex: number) => {
+      if (!await authorize(socket, client, musicManager, serverId)) return;
+
+      logger.info(`Re-queueing history entry ${historyIndex} in server ${serverId} by ${user.username}`);
+
+      try {
+        const track = musicManager.requeueFromHistory(serverId, historyIndex, user);
+
+        if (track) {
+          socket.emit('track-added', serverId, [track]);
+        } else {
+          socket.emit('error', 'Failed to re-queue track');
+        }
+      } catch (error) {
+        logger.error(`Error re-queueing track:`, error);
+        socket.emit('error', 'An error occurred while re-queueing the track');
+      }
+    });
+
+    socket.on('get-lyrics', async (serverId: string) => {
+      if (!await authorize(socket, client, musicManager, serverId)) return;
+
+      const track = musicManager.getQueue(serverId)?.currentTrack;
+      if (!track) return;
+
+      try {
+        const lyrics = await lyricsService.find(track.title, track.duration);
+        socket.emit('lyrics', serverId, track.id, lyrics);
+      } catch (error) {
+        logger.error(`Error fetching lyrics:`, error);
+        socket.emit('error', 'An error occurred while fetching lyrics');
+      }
+    });
+
+    socket.on('get-playlists', async (serverId: string) => {
+      if (!await authorize(socket, client, musicManager, serverId)) return;
+
+      socket.emit('playlists-update', 'guild', serverId, playlistManager.list('guild', serverId));
+      socket.emit('playlists-update', 'user', user.id, playlistManager.list('user', user.id));
+    });
+
+    socket.on('save-playlist', async (serverId: string, name: string, scope: PlaylistScope) => {
+      if (!await authorize(socket, client, musicManager, serverId)) return;
+
+      logger.info(`Saving queue as ${scope} playlist "${name}" in server ${serverId} by ${user.username}`);
+
+      try {
+        const queue = musicManager.getQueue(serverId);
+        const tracks = queue ? [...(queue.currentTrack ? [queue.currentTrack] : []), ...queue.tracks] : [];
+        if (!tracks.length) {
+          socket.emit('error', 'The queue is empty');
+          return;
+        }
+        if (!tracks.some(canSaveTrack)) {
+          socket.emit('error', 'Uploaded files can\'t be saved in playlists because their Discord links expire');
+          return;
+        }
+
+        // Anything other than 'user' from the client is treated as a server playlist
+        const playlistScope: PlaylistScope = scope === 'user' ? 'user' : 'guild';
+        const ownerId = playlistScope === 'user' ? user.id : serverId;
+        const existing = playlistManager.find(playlistScope, ownerId, name);
+        const member = await getGuildMember(client, serverId, user.id);
+        if (existing && (!member || !canEditPlaylist(member, existing, musicManager.getSettings(serverId).djRoleId))) {
+          socket.emit('error', `You can't overwrite ${existing.name}, it belongs to ${existing.createdBy.username}`);
+          return;
+        }
+
+        if (!playlistManager.save(playlistScope, ownerId, name, tracks, user)) {
+          socket.emit('error', 'Please give the playlist a name');
+        }
+      } catch (error) {
+        logger.error(`Error saving playlist:`, error);
+        socket.emit('error', 'An error occurred while saving the playlist');
+      }
+    });
+
+    socket.on('load-playlist', async (serverId: string, playlistId: string) => {
+      if (!await authorize(socket, client, musicManager, serverId)) return;
+
+      const playlist = playlistManager.get(playlistId);
+      if (!playlist || !isVisiblePlaylist(playlist.scope, playlist.ownerId, serverId, user.id)) {
+        socket.emit('error', 'Playlist not found');
+        return;
+      }
+
+      logger.info(`Loading playlist "${playlist.name}" into server ${serverId} by ${user.username}`);
+
+      try {
+        if (!await ensureConnected(socket, client, musicManager, serverId)) return;
+
+        const result = await musicManager.addPlaylist(serverId, playlist, user);
+        if (!result.tracks.length) {
+          socket.emit('error', 'None of the tracks in that playlist could be added');
+          return;
+        }
+
+        socket.emit('track-added', serverId, result.tracks);
+      } catch (error) {
+        logger.error(`Error loading playlist:`, error);
+        socket.emit('error', 'An error occurred while loading the playlist');
+      }
+    });
+
+    socket.on('rename-playlist', async (serverId: string, playlistId: string, name: string) => {
+      if (!await authorizePlaylistEdit(socket, client, musicManager, playlistManager, serverId, playlistId)) return;
+
+      if (typeof name !== 'string' || !playlistManager.rename(playlistId, name)) {
+        socket.emit('error', 'A playlist with that name already exists');
+      }
+    });
+
+    socket.on('remove-playlist-track', async (serverId: string, playlistId: string, trackIndex: number) => {
+      if (!await authorizePlaylistEdit(socket, client, musicManager, playlistManager, serverId, playlistId)) return;
+
+      if (!playlistManager.removeTrack(playlistId, trackIndex)) {
+        socket.emit('error', 'Failed to remove track from playlist');
+      }
+    });
+
+    socket.on('delete-playlist', async (serverId: string, playlistId: string) => {
+      if (!await authorizePlaylistEdit(socket, client, musicManager, playlistManager, serverId, playlistId)) return;
+
+      logger.info(`Deleting playlist ${playlistId} by ${user.username}`);
+      playlistManager.delete(playlistId);
+    });
+
     socket.on('disconnect', () => {
       logger.info(`Client disconnected: ${socket.id}`);
     });
   });
-}
\ No newline at end of file
+}
+
+// Checks the socket's user is in the guild and, when affected tracks are given, that they're a DJ
+// or requested all of them
+async function authorize(
+  socket: Socket,
+  client: Client,
+  musicManager: MusicManager,
+  serverId: string,
+  affectedTracks?: (Track | null | undefined)[]
+): Promise<boolean> {
+  const user = socket.data.user as DashboardUser;
+  const member = await getGuildMember(client, serverId, user.id);
+
+  if (!member) {
+    socket.emit('error', 'You are not a member of that server');
+    return false;
+  }
+
+  if (affectedTracks && !canAffectTracks(member, musicManager.getSettings(serverId).djRoleId, affectedTracks)) {
+    socket.emit('error', affectedTracks.some(Boolean)
+      ? 'You need the DJ role or Manage Server permission to change tracks other people requested'
+      : 'You need the DJ role or Manage Server permission to do that');
+    return false;
+  }
+
+  return true;
+}
+
+// Tracks a player action would cut short or reorder; undefined for actions anyone may take
+function getAffectedTracks(queue: Queue | null, action: PlayerAction): (Track | null | undefined)[] | undefined {
+  switch (action) {
+    case 'skip':
+    case 'previous':
+      return [queue?.currentTrack];
+    case 'stop':
+      return [queue?.currentTrack, ...(queue?.tracks ?? [])];
+    case 'shuffle':
+      return queue?.tracks ?? [];
+    default:
+      return undefined;
+  }
+}
+
+// Joins the user's voice channel if the bot isn't playing in this server yet
+async function ensureConnected(socket: Socket, client: Client, musicManager: MusicManager, serverId: string): Promise<boolean> {
+  if (musicManager.getConnection(serverId)) return true;
+
+  const user = socket.data.user as DashboardUser;
+  const member = await getGuildMember(client, serverId, user.id);
+  const voiceChannel = member?.voice.channel;
+  if (!voiceChannel) {
+    socket.emit('error', 'Join a voice channel in that server first, or start playback with /play');
+    return false;
+  }
+
+  if (!await musicManager.joinChannel(voiceChannel as VoiceChannel)) {
+    socket.emit('error', 'Failed to join your voice channel');
+    return false;
+  }
+
+  return true;
+}
+
+// Dashboard users see this server's playlists and their own personal ones
+function isVisiblePlaylist(scope: PlaylistScope, ownerId: string, serverId: string, userId: string): boolean {
+  return scope === 'guild' ? ownerId === serverId : ownerId === userId;
+}
+
+async function authorizePlaylistEdit(
+  socket: Socket,
+  client: Client,
+  musicManager: MusicManager,
+  playlistManager: PlaylistManager,
+  serverId: string,
+  playlistId: string
+): Promise<boolean> {
+  if (!await authorize(socket, client, musicManager, serverId)) return false;
+
+  const user = socket.data.user as DashboardUser;
+  const playlist = playlistManager.get(playlistId);
+  const member = await getGuildMember(client, serverId, user.id);
+
+  if (!playlist || !member || !isVisiblePlaylist(playlist.scope, playlist.ownerId, serverId, user.id)) {
+    socket.emit('error', 'Playlist not found');
+    return false;
+  }
+
+  if (!canEditPlaylist(member, playlist, musicManager.getSettings(serverId).djRoleId)) {
+    socket.emit('error', `You can't edit ${playlist.name}, it belongs to ${playlist.createdBy.username}`);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+
+const SAVE_DELAY_MS = 1000;
+
+export function getDataDirectory(): string {
+  return path.resolve(process.env.DATA_DIR || 'data');
+}
+
+// Small JSON file store with debounced, atomic writes (write to a temp file, then rename)
+export class JsonStore<T> {
+  private filePath: string;
+  private fallback: T;
+  private pending?: T;
+  private saveTimer?: NodeJS.Timeout;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(fileName: string, fallback: T) {
+    this.filePath = path.join(getDataDirectory(), fileName);
+    this.fallback = fallback;
+  }
+
+  public async load(): Promise<T> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to read ${this.filePath}:`, error);
+      }
+      return this.fallback;
+    }
+  }
+
+  public save(data: T): void {
+    this.pending = data;
+
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => {
+        this.saveTimer = undefined;
+        this.writePending();
+      }, SAVE_DELAY_MS);
+    }
+  }
+
+  public async flush(data?: T): Promise<void> {
+    if (data !== undefined) {
+      this.pending = data;
+    }
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+
+    await this.writePending();
+  }
+
+  private writePending(): Promise<void> {
+    if (this.pending === undefined) return this.writing;
+
+    const data = this.pending;
+    this.pending = undefined;
+
+    // Chain writes so an older snapshot can never land after a newer one
+    this.writing = this.writing.then(async () => {
+      try {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        logger.error(`Failed to write ${this.filePath}:`, error);
+      }
+    });
+
+    return this.writing;
+  }
+}
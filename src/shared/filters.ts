@@ -0,0 +1,31 @@
+import type { AudioFilters, FilterPreset } from './types.js';
+
+export const FILTER_PRESETS: { id: FilterPreset; name: string; description: string }[] = [
+  { id: 'bassboost', name: 'Bass Boost', description: 'Stronger low end' },
+  { id: 'nightcore', name: 'Nightcore', description: 'Faster and higher pitched' },
+  { id: 'vaporwave', name: 'Vaporwave', description: 'Slower and lower pitched' },
+  { id: '8d', name: '8D', description: 'Sound circles around your head' },
+  { id: 'karaoke', name: 'Karaoke', description: 'Removes centered vocals' },
+  { id: 'normalize', name: 'Normalize', description: 'Evens out loud and quiet parts' }
+];
+
+// Center frequencies of the equalizer bands, in Hz
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_MAX_GAIN = 12;
+
+// Nightcore and vaporwave both change the playback speed, so only one of them can be on
+export const EXCLUSIVE_PRESETS: FilterPreset[][] = [['nightcore', 'vaporwave']];
+
+export function createDefaultFilters(): AudioFilters {
+  return { presets: [], equalizer: EQ_BANDS.map(() => 0) };
+}
+
+export function hasActiveFilters(filters: AudioFilters): boolean {
+  return filters.presets.length > 0 || filters.equalizer.some(gain => gain !== 0);
+}
+
+// Turns a preset on, switching off any preset it can't be combined with
+export function enablePreset(presets: FilterPreset[], preset: FilterPreset): FilterPreset[] {
+  const conflicts = EXCLUSIVE_PRESETS.find(group => group.includes(preset)) ?? [];
+  return [...presets.filter(existing => !conflicts.includes(existing)), preset];
+}
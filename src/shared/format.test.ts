@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatDuration, parseTimestamp } from './format.js';
+
+describe('parseTimestamp', () => {
+  it('reads plain seconds', () => {
+    assert.equal(parseTimestamp('90'), 90);
+    assert.equal(parseTimestamp(' 0 '), 0);
+  });
+
+  it('reads m:ss and h:mm:ss', () => {
+    assert.equal(parseTimestamp('1:30'), 90);
+    assert.equal(parseTimestamp('1:02:03'), 3723);
+  });
+
+  it('round-trips formatted durations', () => {
+    assert.equal(parseTimestamp(formatDuration(3723)), 3723);
+  });
+
+  it('rejects anything else', () => {
+    for (const input of ['', '1:', ':30', '-5', '1.5', '1:2:3:4', 'abc', '1m30s']) {
+      assert.equal(parseTimestamp(input), null, input);
+    }
+  });
+});
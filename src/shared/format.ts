@@ -0,0 +1,37 @@
+import type { LoopMode } from './types.js';
+
+// Formats seconds as m:ss or h:mm:ss
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+// Accepts plain seconds ("90") or colon-separated "m:ss" / "h:mm:ss"
+export function parseTimestamp(input: string): number | null {
+  const parts = input.trim().split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+
+  return parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
+export function formatLoopMode(mode: LoopMode): string {
+  switch (mode) {
+    case 'track':
+      return 'Current Track';
+    case 'queue':
+      return 'Queue';
+    default:
+      return 'OFF';
+  }
+}
+
+// 1000 -> "1 kHz", 250 -> "250 Hz"
+export function formatFrequency(hertz: number): string {
+  return hertz >= 1000 ? `${hertz / 1000} kHz` : `${hertz} Hz`;
+}
@@ -0,0 +1,10 @@
+// Every place a track can come from, with its display name; the server registers one provider for each
+export const TRACK_SOURCES = {
+  youtube: 'YouTube',
+  spotify: 'Spotify',
+  soundcloud: 'SoundCloud',
+  http: 'Web',
+  local: 'Local Library'
+} as const;
+
+export type TrackSource = keyof typeof TRACK_SOURCES;
@@ -1,3 +1,11 @@
+import type { TrackSource } from './sources.js';
+
+export interface DashboardUser {
+  id: string;
+  username: string;
+  avatar?: string;
+}
+
 export interface Track {
   id: string;
   title: string;
@@ -9,7 +17,33 @@ export interface Track {
     username: string;
     avatar?: string;
   };
-  source: 'youtube' | 'spotify' | 'demo';
+  source: TrackSource;
+  // Set for tracks that are matched to a YouTube upload only when they are about to play
+  searchQuery?: string;
+  streamUrl?: string;
+  // Picked by autoplay rather than requested by someone
+  autoplay?: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  channel?: string;
+  duration: number;
+  thumbnail?: string;
+  url: string;
+}
+
+export type LoopMode = 'none' | 'track' | 'queue';
+
+export type PlayerAction = 'play' | 'pause' | 'skip' | 'previous' | 'stop' | 'shuffle' | 'loop' | 'autoplay';
+
+export type FilterPreset = 'bassboost' | 'nightcore' | 'vaporwave' | '8d' | 'karaoke' | 'normalize';
+
+export interface AudioFilters {
+  presets: FilterPreset[];
+  // Gain in dB for each of the EQ_BANDS, all zeros when the equalizer is flat
+  equalizer: number[];
 }
 
 export interface Queue {
@@ -18,8 +52,59 @@ export interface Queue {
   isPlaying: boolean;
   isPaused: boolean;
   volume: number;
-  loop: 'none' | 'track' | 'queue';
+  loop: LoopMode;
   shuffle: boolean;
+  // Seconds elapsed in currentTrack
+  position: number;
+  // Recently finished tracks, most recent first
+  history: Track[];
+  filters: AudioFilters;
+  // Keeps the music going with related tracks once the queue runs dry
+  autoplay: boolean;
+}
+
+export interface GuildSettings {
+  defaultVolume: number;
+  maxVolume: number;
+  // Share of listeners (in %) that must vote before a non-DJ /skip goes through
+  voteSkipPercent: number;
+  // Role allowed to control everyone's music; falls back to a role named DJ_ROLE_NAME when unset
+  djRoleId?: string;
+}
+
+// Guild playlists are shared by the whole server, user playlists follow their owner everywhere
+export type PlaylistScope = 'guild' | 'user';
+
+export type PlaylistTrack = Pick<Track, 'id' | 'title' | 'duration' | 'thumbnail' | 'url' | 'source'>;
+
+export interface Playlist {
+  id: string;
+  name: string;
+  scope: PlaylistScope;
+  // Guild ID or user ID, depending on scope
+  ownerId: string;
+  createdBy: {
+    id: string;
+    username: string;
+  };
+  tracks: PlaylistTrack[];
+  updatedAt: number;
+}
+
+export interface LyricsLine {
+  // Seconds into the track where the line starts
+  time: number;
+  text: string;
+}
+
+export interface Lyrics {
+  title: string;
+  artist?: string;
+  // Name of the provider the lyrics came from
+  source: string;
+  plain: string;
+  // Present when the provider has time-synced (LRC) lyrics
+  synced?: LyricsLine[];
 }
 
 export interface ServerInfo {
@@ -34,6 +119,7 @@ export interface ServerInfo {
     memberCount: number;
   };
   queue: Queue;
+  settings: GuildSettings;
 }
 
 export interface BotStats {
@@ -48,14 +134,36 @@ export interface SocketEvents {
   // Client to Server
   'join-server': (serverId: string) => void;
   'leave-server': (serverId: string) => void;
-  'control-player': (serverId: string, action: 'play' | 'pause' | 'skip' | 'stop' | 'shuffle') => void;
+  'control-player': (serverId: string, action: PlayerAction) => void;
   'set-volume': (serverId: string, volume: number) => void;
   'remove-track': (serverId: string, trackIndex: number) => void;
+  'seek': (serverId: string, position: number) => void;
+  'move-track': (serverId: string, fromIndex: number, toIndex: number) => void;
+  'skip-to': (serverId: string, trackIndex: number) => void;
+  'search-tracks': (query: string) => void;
+  'add-track': (serverId: string, query: string) => void;
+  'requeue-track': (serverId: string, historyIndex: number) => void;
+  'set-filters': (serverId: string, filters: AudioFilters) => void;
+  'get-lyrics': (serverId: string) => void;
+  'get-playlists': (serverId: string) => void;
+  'save-playlist': (serverId: string, name: string, scope: PlaylistScope) => void;
+  'load-playlist': (serverId: string, playlistId: string) => void;
+  'rename-playlist': (serverId: string, playlistId: string, name: string) => void;
+  'remove-playlist-track': (serverId: string, playlistId: string, trackIndex: number) => void;
+  'delete-playlist': (serverId: string, playlistId: string) => void;
 
   // Server to Client
   'server-update': (serverInfo: ServerInfo) => void;
   'queue-update': (serverId: string, queue: Queue) => void;
+  'position-update': (serverId: string, position: number) => void;
   'stats-update': (stats: BotStats) => void;
+  'search-results': (query: string, results: SearchResult[]) => void;
+  'track-added': (serverId: string, tracks: Track[]) => void;
+  'track-start': (serverId: string, track: Track) => void;
+  'player-error': (serverId: string, message: string) => void;
   'servers-list': (servers: ServerInfo[]) => void;
+  'playlists-update': (scope: PlaylistScope, ownerId: string, playlists: Playlist[]) => void;
+  // Lyrics for the given track, null when no provider has them
+  'lyrics': (serverId: string, trackId: string, lyrics: Lyrics | null) => void;
   'error': (message: string) => void;
 }
\ No newline at end of file